@@ -1,6 +1,6 @@
 
-import React, { useState, useEffect } from 'react';
-import { Book, BookFormat } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Book } from './types';
 import Sidebar from './components/Sidebar';
 import Header from './components/Header';
 import LibraryView from './components/LibraryView';
@@ -9,9 +9,15 @@ import ConverterView from './components/ConverterView';
 import AIAssistant from './components/AIAssistant';
 import InfoModal, { InfoType } from './components/InfoModal';
 import SettingsModal from './components/SettingsModal';
-import { getAllBooksFromDB, saveBookToDB, deleteBookFromDB } from './services/storage';
+import BackupModal from './components/BackupModal';
+import { getAllBooksFromDB, deleteBookFromDB, updateBookInDB } from './services/storage';
+import { createImportQueue, filterBookFiles, ImportQueueItem } from './services/importer';
+import ImportQueuePanel from './components/ImportQueuePanel';
 import { AlertTriangle } from 'lucide-react';
 
+// Files imported in parallel; keeps memory bounded on large batches.
+const MAX_CONCURRENT_IMPORTS = 2;
+
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'library' | 'reader' | 'converter'>('library');
   const [books, setBooks] = useState<Book[]>([]);
@@ -24,59 +30,63 @@ const App: React.FC = () => {
   const [bookToDelete, setBookToDelete] = useState<string | null>(null);
   const [infoModalType, setInfoModalType] = useState<InfoType>(null);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [importItems, setImportItems] = useState<ImportQueueItem[]>([]);
+
+  const importQueueRef = useRef<ReturnType<typeof createImportQueue> | null>(null);
+  if (!importQueueRef.current) {
+    importQueueRef.current = createImportQueue({
+      concurrency: MAX_CONCURRENT_IMPORTS,
+      onUpdate: (item) => setImportItems(prev => {
+        const idx = prev.findIndex(i => i.id === item.id);
+        if (idx === -1) return [...prev, item];
+        const next = [...prev];
+        next[idx] = item;
+        return next;
+      }),
+      onImported: (book) => setBooks(prev => [book, ...prev])
+    });
+  }
+
+  const loadBooks = async () => {
+    try {
+      const storedBooks = await getAllBooksFromDB();
+      setBooks(storedBooks.sort((a, b) => b.addedAt - a.addedAt));
+    } catch (e) {
+      console.error("Load failed", e);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   useEffect(() => {
-    const loadBooks = async () => {
-      try {
-        const storedBooks = await getAllBooksFromDB();
-        setBooks(storedBooks);
-      } catch (e) {
-        console.error("Load failed", e);
-      } finally {
-        setIsLoading(false);
-      }
-    };
     loadBooks();
   }, []);
 
-  const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files;
-    if (!files) return;
-
-    Array.from(files).forEach((file: File) => {
-      const format = file.name.split('.').pop()?.toLowerCase() as BookFormat;
-      if (!['epub', 'pdf', 'mobi', 'fb2', 'txt', 'rtf', 'azw3'].includes(format)) return;
-
-      const reader = new FileReader();
-      reader.onload = async () => {
-        const result = reader.result;
-        if (!result) return;
-
-        let content: string | ArrayBuffer = result;
-        if (['txt', 'fb2', 'rtf'].includes(format) && result instanceof ArrayBuffer) {
-          const decoder = new TextDecoder('utf-8', { fatal: true });
-          try { content = decoder.decode(new Uint8Array(result)); } 
-          catch (e) { content = new TextDecoder('gbk').decode(new Uint8Array(result)); }
-        }
-
-        const newBook: Book = {
-          id: 'book-' + Date.now() + '-' + Math.random().toString(36).substr(2, 5),
-          title: file.name.replace(/\.[^/.]+$/, ""),
-          author: 'Unknown Author',
-          format,
-          content: content,
-          addedAt: Date.now(),
-          cover: `https://picsum.photos/seed/${Math.random()}/400/600`
-        };
-        
-        try {
-          await saveBookToDB(newBook);
-          setBooks(prev => [newBook, ...prev]);
-        } catch (err) { console.error(err); }
-      };
-      reader.readAsArrayBuffer(file);
-    });
-    e.target.value = '';
+  const handleLibraryRestored = () => {
+    setCurrentBook(null);
+    if (activeTab === 'reader') setActiveTab('library');
+    loadBooks();
+  };
+
+  const handleImport = (files: File[], source: 'files' | 'folder') => {
+    const accepted = source === 'folder' ? filterBookFiles(files) : files;
+    if (accepted.length === 0) return;
+    importQueueRef.current?.enqueue(accepted);
+  };
+
+  const clearFinishedImports = () => {
+    setImportItems(prev => prev.filter(i => i.status === 'queued' || i.status === 'importing'));
+  };
+
+  const handleBookUpdate = async (book: Book) => {
+    setBooks(prev => prev.map(b => b.id === book.id ? book : b));
+    setCurrentBook(prev => prev?.id === book.id ? book : prev);
+    try {
+      await updateBookInDB(book);
+    } catch (e) {
+      console.error("Update book failed", e);
+    }
   };
 
   const openReader = (book: Book) => {
@@ -107,7 +117,7 @@ const App: React.FC = () => {
       <Sidebar 
         activeTab={activeTab} 
         setActiveTab={setActiveTab} 
-        onImport={handleFileImport}
+        onImport={handleImport}
         onOpenSettings={() => setIsSettingsOpen(true)}
         isOpen={isSidebarOpen}
       />
@@ -138,6 +148,8 @@ const App: React.FC = () => {
                   onOpen={openReader} 
                   onDelete={setBookToDelete} 
                   onOpenInfo={setInfoModalType}
+                  onOpenBackup={() => setIsBackupOpen(true)}
+                  onDropFiles={(files) => handleImport(files, 'files')}
                 />
               )}
               {activeTab === 'reader' && currentBook && (
@@ -147,6 +159,7 @@ const App: React.FC = () => {
                   onToggleAI={() => setIsAiOpen(!isAiOpen)}
                   isSidebarOpen={isSidebarOpen}
                   onToggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
+                  onBookUpdate={handleBookUpdate}
                 />
               )}
               {activeTab === 'converter' && (
@@ -169,6 +182,12 @@ const App: React.FC = () => {
         {/* Settings Modal */}
         {isSettingsOpen && <SettingsModal onClose={() => setIsSettingsOpen(false)} />}
 
+        {/* Backup / Restore Modal */}
+        {isBackupOpen && <BackupModal onClose={() => setIsBackupOpen(false)} onRestored={handleLibraryRestored} />}
+
+        {/* Import Queue */}
+        <ImportQueuePanel items={importItems} onClearFinished={clearFinishedImports} />
+
         {/* Delete Modal */}
         {bookToDelete && (
           <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/40 backdrop-blur-sm p-4">
@@ -3,7 +3,8 @@ import React, { useState, useEffect, useRef } from 'react';
 import { Book } from '../types';
 import { X, Send, Bot, Sparkles, RefreshCw, AlertCircle, FileText, Minus, Loader2 } from 'lucide-react';
 import { getBookInsights, chatWithBook } from '../services/gemini';
-import { extractBookText } from '../utils/textExtractor';
+import { extractText } from '../services/bookProcessor';
+import { loadBookContent } from '../services/storage';
 
 interface AIAssistantProps {
   isOpen: boolean;
@@ -19,6 +20,8 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ isOpen, onClose, contextBook
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isExtracting, setIsExtracting] = useState(false);
+  const [extractProgress, setExtractProgress] = useState(0);
+  const extractAbortRef = useRef<AbortController | null>(null);
   const [insights, setInsights] = useState<{summary: string, keyInsights: string[], suggestedQuestions: string[]} | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [extractedText, setExtractedText] = useState<string>("");
@@ -49,6 +52,8 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ isOpen, onClose, contextBook
     }
   }, [isOpen, contextBook?.id]);
 
+  useEffect(() => () => extractAbortRef.current?.abort(), []);
+
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
@@ -165,12 +170,20 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ isOpen, onClose, contextBook
 
   const handleInitialLoad = async () => {
     if (!contextBook) return;
+    const controller = new AbortController();
+    extractAbortRef.current = controller;
     setIsLoading(true);
     setIsExtracting(true);
+    setExtractProgress(0);
     setError(null);
 
     try {
-      const text = await extractBookText(contextBook, 60000);
+      const content = await loadBookContent(contextBook.id);
+      const text = await extractText(contextBook, content, 60000, {
+        signal: controller.signal,
+        onProgress: setExtractProgress
+      });
+      extractAbortRef.current = null;
       setExtractedText(text);
       setIsExtracting(false);
 
@@ -181,14 +194,20 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ isOpen, onClose, contextBook
         setInsights(JSON.parse(jsonStr));
       }
     } catch (e: any) {
-      console.error(e);
-      setError(e.message || "AI service unavailable.");
+      if (e?.name === 'AbortError') {
+        setError("Book analysis cancelled.");
+      } else {
+        console.error(e);
+        setError(e.message || "AI service unavailable.");
+      }
       setIsExtracting(false);
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleCancelExtract = () => extractAbortRef.current?.abort();
+
   const handleSend = async () => {
     if (!inputValue.trim() || !contextBook) return;
     const userMsg = { role: 'user' as const, text: inputValue };
@@ -316,12 +335,18 @@ const AIAssistant: React.FC<AIAssistantProps> = ({ isOpen, onClose, contextBook
             )}
 
             {isExtracting && (
-               <div className="flex flex-col items-center justify-center py-8 gap-3 animate-pulse">
-                  <div className="relative">
+               <div className="flex flex-col items-center justify-center py-8 gap-3">
+                  <div className="relative animate-pulse">
                     <FileText size={32} className="text-indigo-200" />
                     <RefreshCw size={12} className="absolute -bottom-1 -right-1 text-indigo-500 animate-spin" />
                   </div>
-                  <p className="text-xs text-indigo-400 font-medium">Analyzing content...</p>
+                  <p className="text-xs text-indigo-400 font-medium">Analyzing content... {Math.round(extractProgress * 100)}%</p>
+                  <div className="w-40 h-1 bg-indigo-50 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-400 transition-all duration-200" style={{ width: `${Math.round(extractProgress * 100)}%` }} />
+                  </div>
+                  <button onClick={handleCancelExtract} className="text-[10px] font-bold uppercase tracking-wider text-gray-400 hover:text-indigo-600">
+                    Cancel
+                  </button>
                </div>
             )}
 
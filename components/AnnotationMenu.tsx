@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { HighlightColor } from '../types';
+import { HIGHLIGHT_COLORS, HIGHLIGHT_COLOR_NAMES } from '../utils/annotations';
+
+const MENU_WIDTH = 280;
+
+interface AnnotationMenuProps {
+  // Viewport point the menu points at: the top centre of the selection.
+  x: number;
+  y: number;
+  // Set once the selection is highlighted; the note field shows from then on.
+  color?: HighlightColor;
+  note?: string;
+  onColor: (color: HighlightColor) => void;
+  onSaveNote: (note: string) => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+const AnnotationMenu: React.FC<AnnotationMenuProps> = ({ x, y, color, note, onColor, onSaveNote, onDelete, onClose }) => {
+  const [draft, setDraft] = useState(note || '');
+
+  const close = () => {
+    if (color && draft !== (note || '')) onSaveNote(draft);
+    onClose();
+  };
+
+  // Opens above the selection unless that would leave the screen.
+  const left = Math.max(8, Math.min(window.innerWidth - MENU_WIDTH - 8, x - MENU_WIDTH / 2));
+  const position = y > 220 ? { bottom: window.innerHeight - y + 12 } : { top: y + 28 };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-[65]" onClick={close} />
+
+      <div
+        className="fixed z-[70] bg-white/95 backdrop-blur-2xl shadow-2xl rounded-2xl border border-gray-100 p-3 animate-in fade-in zoom-in-95 duration-150"
+        style={{ left, width: MENU_WIDTH, ...position }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-2">
+          {HIGHLIGHT_COLOR_NAMES.map(name => (
+            <button
+              key={name}
+              onClick={() => onColor(name)}
+              className={`w-7 h-7 rounded-full transition-transform hover:scale-110 ${color === name ? 'ring-2 ring-offset-2 ring-indigo-500' : ''}`}
+              style={{ backgroundColor: HIGHLIGHT_COLORS[name] }}
+              title={name}
+            />
+          ))}
+          {onDelete && (
+            <button onClick={onDelete} className="ml-auto p-1.5 text-gray-400 hover:text-red-500 rounded-lg hover:bg-red-50" title="Remove highlight">
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+
+        {color && (
+          <>
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Add a note..."
+              rows={3}
+              className="w-full mt-3 px-3 py-2 rounded-xl border border-gray-200 bg-gray-50 text-sm text-gray-700 resize-none focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button onClick={close} className="w-full mt-2 py-2 rounded-xl text-xs font-bold text-white bg-indigo-600 hover:bg-indigo-700">
+              Done
+            </button>
+          </>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default AnnotationMenu;
@@ -0,0 +1,151 @@
+import React, { useRef, useState } from 'react';
+import { X, Archive, Download, Upload, Loader2, AlertCircle, Check } from 'lucide-react';
+import { exportLibrary, importLibrary, RestoreMode, RestoreReport } from '../services/backup';
+
+interface BackupModalProps {
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+const BackupModal: React.FC<BackupModalProps> = ({ onClose, onRestored }) => {
+  const [includeApiKey, setIncludeApiKey] = useState(false);
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>('merge');
+  const [busy, setBusy] = useState<'export' | 'restore' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setBusy('export');
+    setError(null);
+    try {
+      const blob = await exportLibrary({ includeApiKey });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `clawreader-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+      a.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e: any) {
+      console.error("Backup failed", e);
+      setError(e.message || "Backup failed.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (restoreMode === 'replace' && !confirm("Replace your whole library with this backup? Books not in the archive will be removed.")) return;
+
+    setBusy('restore');
+    setError(null);
+    setReport(null);
+    try {
+      const result = await importLibrary(file, restoreMode);
+      setReport(result);
+      onRestored();
+    } catch (e: any) {
+      console.error("Restore failed", e);
+      setError(e.message || "Restore failed.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] flex items-end md:items-center justify-center bg-black/50 backdrop-blur-sm md:p-4 animate-in fade-in duration-200">
+      <div className="bg-white flex flex-col overflow-hidden shadow-2xl w-full max-h-[90vh] rounded-t-[2rem] md:w-[460px] md:rounded-2xl animate-in slide-in-from-bottom md:zoom-in-95 duration-300">
+        <div className="px-6 py-4 border-b border-gray-100 flex justify-between items-center bg-white shrink-0">
+          <h3 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <Archive className="text-indigo-600" size={24} />
+            <span>Library Backup</span>
+          </h3>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition-colors text-gray-400 hover:text-gray-900">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 bg-gray-50/50 pb-safe">
+          {error && (
+            <div className="p-3 rounded-xl text-xs font-medium flex items-start gap-2 border bg-red-50 text-red-700 border-red-100">
+              <AlertCircle size={16} className="shrink-0 mt-0.5" />
+              <div className="break-all">{error}</div>
+            </div>
+          )}
+
+          <div className="bg-white p-5 rounded-2xl border border-gray-100 space-y-4">
+            <label className="text-xs font-bold text-gray-400 uppercase tracking-wider block">Export</label>
+            <p className="text-xs text-gray-500 leading-relaxed">Saves every book file, its details and your AI preferences into a single zip archive.</p>
+            <label className="text-xs font-bold text-gray-700 flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={includeApiKey}
+                onChange={(e) => setIncludeApiKey(e.target.checked)}
+                className="w-4 h-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Include API key
+            </label>
+            <button
+              onClick={handleExport}
+              disabled={busy !== null}
+              className="w-full py-3 rounded-xl font-bold text-white bg-indigo-600 hover:bg-indigo-700 active:scale-95 transition-all shadow-lg shadow-indigo-100 text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {busy === 'export' ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+              Download Backup
+            </button>
+          </div>
+
+          <div className="bg-white p-5 rounded-2xl border border-gray-100 space-y-4">
+            <label className="text-xs font-bold text-gray-400 uppercase tracking-wider block">Restore</label>
+            <div className="flex p-1.5 bg-gray-200/50 rounded-2xl">
+              {(['merge', 'replace'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setRestoreMode(mode)}
+                  className={`flex-1 py-2.5 rounded-xl text-xs font-bold transition-all ${restoreMode === mode ? 'bg-white shadow-sm text-indigo-600' : 'text-gray-500'}`}
+                >
+                  {mode === 'merge' ? 'Merge' : 'Replace Library'}
+                </button>
+              ))}
+            </div>
+            <p className="text-[11px] text-gray-400 leading-snug">
+              {restoreMode === 'merge'
+                ? 'Adds books from the archive. Books already in your library are kept as they are.'
+                : 'Removes your current library, then restores everything from the archive.'}
+            </p>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={busy !== null}
+              className="w-full py-3 rounded-xl font-bold text-gray-700 bg-gray-100 hover:bg-gray-200 active:scale-95 transition-all text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {busy === 'restore' ? <Loader2 size={18} className="animate-spin" /> : <Upload size={18} />}
+              Choose Backup File
+            </button>
+            <input type="file" ref={fileInputRef} className="hidden" accept=".zip" onChange={handleRestore} />
+
+            {report && (
+              <div className="p-3 rounded-xl text-xs border bg-green-50 text-green-800 border-green-100 space-y-2">
+                <div className="flex items-center gap-2 font-bold">
+                  <Check size={16} />
+                  <span>Restored {report.restored} book{report.restored === 1 ? '' : 's'}{report.settingsRestored ? ' and AI settings' : ''}</span>
+                </div>
+                {report.skipped.length > 0 && (
+                  <ul className="space-y-1 text-amber-700">
+                    {report.skipped.map((s, idx) => (
+                      <li key={idx} className="truncate">Skipped “{s.name}”: {s.reason}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupModal;
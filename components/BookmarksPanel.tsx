@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { X, Bookmark as BookmarkIcon, BookmarkPlus, Trash2 } from 'lucide-react';
+import { Bookmark } from '../types';
+
+interface BookmarksPanelProps {
+  // In reading order.
+  bookmarks: Bookmark[];
+  // Chapter of the current location, shown on the add button.
+  currentChapter?: string;
+  canAdd: boolean;
+  onAdd: (label: string) => void;
+  onSelect: (bookmark: Bookmark) => void;
+  onDelete: (bookmark: Bookmark) => void;
+  onClose: () => void;
+}
+
+const BookmarksPanel: React.FC<BookmarksPanelProps> = ({ bookmarks, currentChapter, canAdd, onAdd, onSelect, onDelete, onClose }) => {
+  const [label, setLabel] = useState('');
+
+  const add = () => {
+    onAdd(label.trim());
+    setLabel('');
+  };
+
+  return (
+    <>
+      <div className="md:hidden fixed inset-0 bg-black/40 z-[55] animate-in fade-in" onClick={onClose} />
+
+      <div className="fixed md:absolute bottom-0 md:bottom-auto md:top-16 left-0 md:left-6 right-0 md:right-auto w-full md:w-80 max-h-[70vh] md:max-h-[calc(100%-6rem)] flex flex-col bg-white md:bg-white/95 backdrop-blur-2xl shadow-2xl rounded-t-3xl md:rounded-2xl z-[60] border-t md:border border-gray-100 animate-in slide-in-from-bottom md:slide-in-from-top-4 duration-300">
+        <div className="flex items-center justify-between px-6 pt-6 pb-4">
+          <h4 className="flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.2em] text-indigo-600">
+            <BookmarkIcon size={14} /> Bookmarks
+          </h4>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700 rounded-lg hover:bg-gray-100">
+            <X size={16} />
+          </button>
+        </div>
+
+        <form
+          onSubmit={(e) => { e.preventDefault(); if (canAdd) add(); }}
+          className="flex items-center gap-2 px-6 pb-4"
+        >
+          <input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder={currentChapter ? `Label (${currentChapter})` : 'Label (optional)'}
+            className="flex-1 min-w-0 px-3 py-2 rounded-xl border border-gray-200 bg-gray-50 text-sm text-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+          <button
+            type="submit"
+            disabled={!canAdd}
+            className="p-2 rounded-xl text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-40"
+            title="Bookmark this page"
+          >
+            <BookmarkPlus size={18} />
+          </button>
+        </form>
+
+        {bookmarks.length === 0 ? (
+          <p className="px-6 pb-6 text-sm text-gray-400">No bookmarks in this book yet.</p>
+        ) : (
+          <ul className="flex-1 overflow-y-auto px-3 pb-4 space-y-1">
+            {bookmarks.map(bookmark => (
+              <li key={bookmark.id} className="group flex items-start gap-2 rounded-lg hover:bg-indigo-50">
+                <button onClick={() => onSelect(bookmark)} className="flex-1 min-w-0 text-left py-2 pl-3">
+                  <span className="block text-sm text-gray-700 truncate">{bookmark.label || bookmark.chapter || 'Bookmark'}</span>
+                  <span className="flex gap-2 mt-0.5 text-[10px] font-bold text-gray-400">
+                    {bookmark.label && bookmark.chapter && <span className="truncate">{bookmark.chapter}</span>}
+                    <span className="shrink-0">{Math.round(bookmark.percentage * 100)}%</span>
+                  </span>
+                </button>
+                <button
+                  onClick={() => onDelete(bookmark)}
+                  className="p-2 mt-1 mr-1 text-gray-300 hover:text-red-500 md:opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Remove"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default BookmarksPanel;
@@ -1,9 +1,11 @@
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Book, BookFormat } from '../types';
-import { Download, CheckCircle2, Loader2, RefreshCw, FileText } from 'lucide-react';
+import { Download, CheckCircle2, Loader2, RefreshCw, FileText, AlertTriangle } from 'lucide-react';
 import { jsPDF } from "jspdf";
-import { extractBookText } from '../utils/textExtractor';
+import { CHAPTER_SEPARATOR } from '../utils/textExtractor';
+import { streamBookSections } from '../services/bookProcessor';
+import { loadBookContent } from '../services/storage';
 
 interface ConverterViewProps {
   books: Book[];
@@ -14,7 +16,9 @@ const ConverterView: React.FC<ConverterViewProps> = ({ books }) => {
   const [targetFormat, setTargetFormat] = useState<BookFormat>('txt');
   const [isConverting, setIsConverting] = useState(false);
   const [statusMessage, setStatusMessage] = useState('');
-  const [result, setResult] = useState<{ url: string; name: string } | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<{ url: string; name: string; failedSections: string[] } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const formats: BookFormat[] = ['txt', 'pdf']; 
 
@@ -22,7 +26,7 @@ const ConverterView: React.FC<ConverterViewProps> = ({ books }) => {
    * Optimized PDF Generator
    * Uses Async/Await pattern to yield control to UI thread.
    */
-  const createPdfWithCanvas = async (title: string, text: string, onProgress: (msg: string) => void): Promise<Blob> => {
+  const createPdfWithCanvas = async (title: string, text: string, onProgress: (msg: string) => void, signal?: AbortSignal): Promise<Blob> => {
     // 1. Setup Constants
     const pageWidth = 595.28; // A4 pt
     const pageHeight = 841.89; 
@@ -71,6 +75,7 @@ const ConverterView: React.FC<ConverterViewProps> = ({ books }) => {
              pageIndex++;
              onProgress(`Rendering PDF Page ${pageIndex}...`);
              await new Promise(r => setTimeout(r, 0));
+             signal?.throwIfAborted();
          }
     };
 
@@ -145,6 +150,7 @@ const ConverterView: React.FC<ConverterViewProps> = ({ books }) => {
         if (i % 20 === 0) {
              onProgress(`Processing paragraph ${i} / ${paragraphs.length}...`);
              await new Promise(r => setTimeout(r, 0));
+             signal?.throwIfAborted();
         }
     }
 
@@ -157,22 +163,36 @@ const ConverterView: React.FC<ConverterViewProps> = ({ books }) => {
     const book = books.find(b => b.id === selectedBookId);
     if (!book) return;
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsConverting(true);
     setResult(null);
+    setProgress(0);
     setStatusMessage("Extracting text content...");
 
     try {
-      // Use the shared utility
-      // Pass a very large limit for conversion (e.g., 10 million chars)
-      const resultText = await extractBookText(book, 10000000); 
+      const content = await loadBookContent(book.id);
+
+      // Stream the whole book; sections that fail to load are reported with
+      // the result rather than silently left out.
+      const parts: string[] = [];
+      const failedSections: string[] = [];
+      for await (const section of streamBookSections(book, content, controller.signal, setProgress)) {
+        if (section.error) failedSections.push(section.error);
+        if (section.text) parts.push(section.text);
+        setProgress((section.index + 1) / section.total);
+        setStatusMessage(`Extracting ${section.title} (${section.index + 1} / ${section.total})...`);
+      }
+      const resultText = parts.join(CHAPTER_SEPARATOR);
 
+      setProgress(null);
       setStatusMessage(`Generating ${targetFormat.toUpperCase()} file...`);
       
       let blob: Blob;
       let filename = `${book.title}`;
 
       if (targetFormat === 'pdf') {
-         blob = await createPdfWithCanvas(book.title, resultText, (msg) => setStatusMessage(msg));
+         blob = await createPdfWithCanvas(book.title, resultText, (msg) => setStatusMessage(msg), controller.signal);
          filename += ".pdf";
       } else {
          blob = new Blob([resultText], { type: 'text/plain;charset=utf-8' });
@@ -180,17 +200,23 @@ const ConverterView: React.FC<ConverterViewProps> = ({ books }) => {
       }
 
       const downloadUrl = URL.createObjectURL(blob);
-      setResult({ url: downloadUrl, name: filename });
+      setResult({ url: downloadUrl, name: filename, failedSections });
 
     } catch (error: any) {
-      console.error("Conversion failed:", error);
-      alert(`转换失败: ${error.message || "未知错误"}`);
+      if (error?.name !== 'AbortError') {
+        console.error("Conversion failed:", error);
+        alert(`转换失败: ${error.message || "未知错误"}`);
+      }
     } finally {
+      abortRef.current = null;
       setIsConverting(false);
+      setProgress(null);
       setStatusMessage("");
     }
   };
 
+  const handleCancel = () => abortRef.current?.abort();
+
   return (
     <div className="max-w-5xl mx-auto p-4 md:p-12 h-full flex flex-col overflow-y-auto">
       <div className="mb-10 flex items-center justify-between">
@@ -295,6 +321,17 @@ const ConverterView: React.FC<ConverterViewProps> = ({ books }) => {
                     <span>转换成功!</span>
                   </div>
                   <div className="text-sm text-indigo-100 truncate mb-6 font-mono bg-black/20 p-2 rounded-lg">{result.name}</div>
+                  {result.failedSections.length > 0 && (
+                    <div className="mb-6 text-xs text-amber-200 bg-amber-500/10 border border-amber-400/30 rounded-lg p-3">
+                      <div className="flex items-center gap-2 font-bold mb-1">
+                        <AlertTriangle size={14} />
+                        {result.failedSections.length} 个章节无法读取，已从结果中省略
+                      </div>
+                      <ul className="max-h-24 overflow-y-auto font-mono text-[10px] text-amber-100/80 space-y-0.5">
+                        {result.failedSections.map((s, i) => <li key={i} className="truncate" title={s}>{s}</li>)}
+                      </ul>
+                    </div>
+                  )}
                   <a 
                     href={result.url} 
                     download={result.name}
@@ -309,9 +346,14 @@ const ConverterView: React.FC<ConverterViewProps> = ({ books }) => {
                 </div>
               ) : (
                 <div className="space-y-4">
+                  {progress !== null && (
+                    <div className="h-1.5 bg-indigo-950/60 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-400 transition-all duration-200" style={{ width: `${Math.round(progress * 100)}%` }} />
+                    </div>
+                  )}
                   {statusMessage && (
                      <div className="text-xs font-mono text-indigo-300 animate-pulse text-center">
-                       {statusMessage}
+                       {statusMessage}{progress !== null && ` ${Math.round(progress * 100)}%`}
                      </div>
                   )}
                   <button
@@ -325,6 +367,11 @@ const ConverterView: React.FC<ConverterViewProps> = ({ books }) => {
                   >
                     {isConverting ? <Loader2 className="animate-spin" /> : "开始转换"}
                   </button>
+                  {isConverting && (
+                    <button onClick={handleCancel} className="w-full text-xs font-bold text-indigo-300 hover:text-white transition-colors">
+                      取消
+                    </button>
+                  )}
                 </div>
               )}
             </div>
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { X, CheckCircle2, AlertTriangle, Loader2, Clock, ChevronDown, ChevronUp, UploadCloud } from 'lucide-react';
+import { ImportQueueItem } from '../services/importer';
+
+interface ImportQueuePanelProps {
+  items: ImportQueueItem[];
+  onClearFinished: () => void;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const ImportQueuePanel: React.FC<ImportQueuePanelProps> = ({ items, onClearFinished }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  if (items.length === 0) return null;
+
+  const doneCount = items.filter(i => i.status === 'done').length;
+  const errorCount = items.filter(i => i.status === 'error').length;
+  const finished = doneCount + errorCount;
+  const isRunning = finished < items.length;
+
+  return (
+    <div className="fixed bottom-24 md:bottom-6 right-4 md:right-6 z-[90] w-[calc(100%-2rem)] md:w-96 bg-white rounded-2xl shadow-2xl border border-gray-100 overflow-hidden animate-in slide-in-from-bottom-2 duration-200">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 bg-gray-50/50">
+        <div className="flex items-center gap-2 min-w-0">
+          {isRunning
+            ? <Loader2 size={16} className="animate-spin text-indigo-600 shrink-0" />
+            : <UploadCloud size={16} className="text-indigo-600 shrink-0" />}
+          <span className="text-xs font-bold uppercase tracking-wider text-gray-700 truncate">
+            Import {finished} / {items.length}
+          </span>
+          {errorCount > 0 && (
+            <span className="text-[10px] font-bold bg-red-50 text-red-600 px-1.5 py-0.5 rounded">{errorCount} failed</span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setIsCollapsed(!isCollapsed)} className="p-1 text-gray-400 hover:text-gray-700 rounded-lg hover:bg-gray-100" title={isCollapsed ? "Expand" : "Collapse"}>
+            {isCollapsed ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+          </button>
+          {finished > 0 && (
+            <button onClick={onClearFinished} className="p-1 text-gray-400 hover:text-gray-700 rounded-lg hover:bg-gray-100" title="Clear finished">
+              <X size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!isCollapsed && (
+        <ul className="max-h-72 overflow-y-auto divide-y divide-gray-50">
+          {items.map(item => (
+            <li key={item.id} className="px-4 py-2.5">
+              <div className="flex items-start gap-2">
+                <div className="mt-0.5 shrink-0">
+                  {item.status === 'done' && <CheckCircle2 size={14} className="text-green-500" />}
+                  {item.status === 'error' && <AlertTriangle size={14} className="text-red-500" />}
+                  {item.status === 'importing' && <Loader2 size={14} className="animate-spin text-indigo-500" />}
+                  {item.status === 'queued' && <Clock size={14} className="text-gray-300" />}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-bold text-gray-800 truncate" title={item.name}>{item.name}</span>
+                    <span className="text-[10px] text-gray-400 shrink-0">{formatSize(item.size)}</span>
+                  </div>
+                  {item.status === 'importing' && (
+                    <>
+                      <div className="mt-1.5 h-1 bg-gray-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-indigo-500 transition-all duration-200" style={{ width: `${Math.round(item.progress * 100)}%` }} />
+                      </div>
+                      <span className="text-[10px] text-gray-400">{item.stage}</span>
+                    </>
+                  )}
+                  {item.status === 'queued' && <span className="text-[10px] text-gray-400">Waiting...</span>}
+                  {item.status === 'done' && <span className="text-[10px] text-green-600 truncate block" title={item.message}>{item.message}</span>}
+                  {item.status === 'error' && <span className="text-[10px] text-red-500 block">{item.message}</span>}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ImportQueuePanel;
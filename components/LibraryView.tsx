@@ -1,6 +1,7 @@
-import React from 'react';
+import React, { useRef, useState } from 'react';
 import { Book } from '../types';
-import { Trash2, Play, Book as BookIcon } from 'lucide-react';
+import { Trash2, Play, Book as BookIcon, Archive, UploadCloud, Lock } from 'lucide-react';
+import { getDroppedFiles } from '../services/importer';
 import { InfoType } from './InfoModal';
 
 interface LibraryViewProps {
@@ -8,11 +9,64 @@ interface LibraryViewProps {
   onOpen: (book: Book) => void;
   onDelete: (id: string) => void;
   onOpenInfo: (type: InfoType) => void;
+  onOpenBackup: () => void;
+  onDropFiles: (files: File[]) => void;
 }
 
-const LibraryView: React.FC<LibraryViewProps> = ({ books, onOpen, onDelete, onOpenInfo }) => {
+const LibraryView: React.FC<LibraryViewProps> = ({ books, onOpen, onDelete, onOpenInfo, onOpenBackup, onDropFiles }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave fire for every child element; count to know when the pointer really leaves.
+  const dragDepthRef = useRef(0);
+
+  const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDragging(false);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDragging(false);
+    try {
+      const files = await getDroppedFiles(e.dataTransfer);
+      if (files.length > 0) onDropFiles(files);
+    } catch (err) {
+      console.error("Reading dropped files failed", err);
+    }
+  };
+
   return (
-    <div className="flex flex-col min-h-full">
+    <div
+      className="flex flex-col min-h-full relative"
+      onDragEnter={handleDragEnter}
+      onDragLeave={handleDragLeave}
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
+      {isDragging && (
+        <div className="absolute inset-2 md:inset-4 z-40 flex flex-col items-center justify-center gap-3 border-2 border-dashed border-indigo-400 rounded-[2rem] bg-indigo-50/90 backdrop-blur-sm pointer-events-none animate-in fade-in duration-150">
+          <UploadCloud size={40} className="text-indigo-500" />
+          <p className="text-indigo-700 font-black text-base md:text-lg">松开以导入书籍</p>
+          <p className="text-indigo-400 text-xs font-bold uppercase tracking-widest">Files or folders</p>
+        </div>
+      )}
       <div className="p-4 md:p-8 flex-1">
         <div className="flex justify-between items-center mb-6 md:mb-10">
           <div>
@@ -22,12 +76,20 @@ const LibraryView: React.FC<LibraryViewProps> = ({ books, onOpen, onDelete, onOp
               <span>LIBRARY • {books.length} ITEMS</span>
             </div>
           </div>
+          <button
+            onClick={onOpenBackup}
+            className="flex items-center gap-2 px-3 py-2 md:px-4 md:py-2.5 rounded-xl bg-white border border-gray-200 text-gray-600 hover:text-indigo-600 hover:border-indigo-200 font-bold text-xs transition-all shadow-sm active:scale-95"
+            title="Backup & Restore"
+          >
+            <Archive size={16} />
+            <span className="hidden sm:inline">Backup</span>
+          </button>
         </div>
 
         {books.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-24 md:py-48 border-2 border-dashed border-gray-200 rounded-[2rem] md:rounded-[3rem] bg-gray-50/30">
              <p className="text-gray-400 font-black text-base md:text-lg">书库目前是空的</p>
-             <p className="text-gray-400 text-xs md:text-sm mt-2">点击底部的 + 号添加书籍</p>
+             <p className="text-gray-400 text-xs md:text-sm mt-2">点击底部的 + 号添加书籍，或将文件拖放到此处</p>
           </div>
         ) : (
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-x-4 gap-y-8 md:gap-x-6 md:gap-y-12">
@@ -52,7 +114,8 @@ const LibraryView: React.FC<LibraryViewProps> = ({ books, onOpen, onDelete, onOp
                       <div className="absolute inset-0 bg-gradient-to-t from-black/60 via-transparent to-transparent opacity-40 md:opacity-0 md:group-hover:opacity-100 transition-opacity duration-300" />
 
                       {/* Format Badge */}
-                      <div className="absolute top-2 left-2 z-10 bg-black/40 backdrop-blur-md text-white/90 text-[8px] md:text-[9px] font-black px-1.5 py-0.5 md:px-2 md:py-1 rounded md:rounded-md uppercase tracking-wider border border-white/10">
+                      <div className="absolute top-2 left-2 z-10 bg-black/40 backdrop-blur-md text-white/90 text-[8px] md:text-[9px] font-black px-1.5 py-0.5 md:px-2 md:py-1 rounded md:rounded-md uppercase tracking-wider border border-white/10 flex items-center gap-1" title={book.protection === 'drm' ? 'DRM-protected' : book.protection === 'password' ? 'Password-protected' : undefined}>
+                        {book.protection && <Lock size={9} className="text-amber-300" />}
                         {book.format}
                       </div>
 
@@ -0,0 +1,59 @@
+import React from 'react';
+import { X, Highlighter, Trash2 } from 'lucide-react';
+import { Annotation } from '../types';
+import { HIGHLIGHT_COLORS } from '../utils/annotations';
+
+interface NotesPanelProps {
+  // In reading order.
+  annotations: Annotation[];
+  onSelect: (annotation: Annotation) => void;
+  onDelete: (annotation: Annotation) => void;
+  onClose: () => void;
+}
+
+const NotesPanel: React.FC<NotesPanelProps> = ({ annotations, onSelect, onDelete, onClose }) => {
+  return (
+    <>
+      <div className="md:hidden fixed inset-0 bg-black/40 z-[55] animate-in fade-in" onClick={onClose} />
+
+      <div className="fixed md:absolute bottom-0 md:bottom-auto md:top-16 left-0 md:left-6 right-0 md:right-auto w-full md:w-80 max-h-[70vh] md:max-h-[calc(100%-6rem)] flex flex-col bg-white md:bg-white/95 backdrop-blur-2xl shadow-2xl rounded-t-3xl md:rounded-2xl z-[60] border-t md:border border-gray-100 animate-in slide-in-from-bottom md:slide-in-from-top-4 duration-300">
+        <div className="flex items-center justify-between px-6 pt-6 pb-4">
+          <h4 className="flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.2em] text-indigo-600">
+            <Highlighter size={14} /> Notes
+          </h4>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700 rounded-lg hover:bg-gray-100">
+            <X size={16} />
+          </button>
+        </div>
+
+        {annotations.length === 0 ? (
+          <p className="px-6 pb-6 text-sm text-gray-400">Select text while reading to highlight it or add a note.</p>
+        ) : (
+          <ul className="flex-1 overflow-y-auto px-3 pb-4 space-y-1">
+            {annotations.map(annotation => (
+              <li key={annotation.id} className="group flex items-start gap-2 rounded-lg hover:bg-indigo-50">
+                <button onClick={() => onSelect(annotation)} className="flex-1 min-w-0 flex gap-3 text-left py-2 pl-3">
+                  <span className="w-1 self-stretch rounded-full shrink-0" style={{ backgroundColor: HIGHLIGHT_COLORS[annotation.color] }} />
+                  <span className="min-w-0">
+                    <span className="block text-sm text-gray-700 line-clamp-3">{annotation.text}</span>
+                    {annotation.note && <span className="block mt-1 text-xs text-gray-500 whitespace-pre-wrap line-clamp-4">{annotation.note}</span>}
+                    <span className="block mt-1 text-[10px] font-bold text-gray-300">{new Date(annotation.updatedAt).toLocaleDateString()}</span>
+                  </span>
+                </button>
+                <button
+                  onClick={() => onDelete(annotation)}
+                  className="p-2 mt-1 mr-1 text-gray-300 hover:text-red-500 md:opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Remove"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default NotesPanel;
@@ -1,8 +1,110 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Book, ReadingSettings } from '../types';
-import { ChevronLeft, ChevronRight, Settings, ArrowLeft, Loader2, Sparkles, PanelLeftClose, PanelLeftOpen } from 'lucide-react';
-import { parseMobi } from '../utils/mobiParser';
+import { Annotation, AnnotationAnchor, Book, Bookmark as BookmarkEntry, BookProtection, HighlightColor, ReadingLocator, ReadingSettings, TocEntry } from '../types';
+import { ChevronLeft, ChevronRight, Settings, ArrowLeft, Loader2, Sparkles, PanelLeftClose, PanelLeftOpen, List, Lock, AlertTriangle, Highlighter, Bookmark, Search } from 'lucide-react';
+import { isKf8 } from '../utils/kf8Parser';
+import { sanitizeBookHtml, scopeBookCss } from '../utils/htmlSanitizer';
+import {
+  loadBookContent, getReadingProgressFromDB, saveReadingProgressToDB,
+  getAnnotationsFromDB, saveAnnotationToDB, deleteAnnotationFromDB,
+  getBookmarksFromDB, saveBookmarkToDB, deleteBookmarkFromDB
+} from '../services/storage';
+import { parseMobiBook, parseKf8Book, parseRtfDocument, releaseParsedBook, releaseResourceUrls } from '../services/bookProcessor';
+import { decodeBookContent, ENCODING_OPTIONS } from '../utils/encoding';
+import { rtfToHtml, rtfToc, rtfParagraphId, paragraphText } from '../utils/rtfParser';
+import { detectHeadings, readPdfOutline } from '../utils/textExtractor';
+import { detectProtection, PROTECTION_MESSAGES } from '../utils/drm';
+import {
+  textOffsetAtPage, pageAtTextOffset, renderedTextLength, pageOfElement,
+  textOffsetOfBoundary, textRangeFromOffsets, textOffsetAtPoint, renderedText
+} from '../utils/textPosition';
+import {
+  HIGHLIGHT_COLORS, HIGHLIGHT_COLOR_NAMES, createAnnotationId, compareAnnotations,
+  rectsToQuads, quadToBox, quadContains
+} from '../utils/annotations';
+import {
+  SearchOptions, SearchResult, SearchTarget, findMatches, excerptAt, pdfPageText, pdfTextLayerRange
+} from '../utils/textSearch';
+import TocPanel from './TocPanel';
+import NotesPanel from './NotesPanel';
+import BookmarksPanel from './BookmarksPanel';
+import SearchPanel from './SearchPanel';
+import AnnotationMenu from './AnnotationMenu';
+
+// Gap between text columns; one page is a column plus this gap.
+const COLUMN_GAP = 40;
+// Page turns settle for this long before the position is written.
+const PROGRESS_SAVE_DELAY = 1000;
+// `lastRead` is refreshed at most this often while reading.
+const LAST_READ_INTERVAL = 60 * 1000;
+
+// Keeps book images and tables inside a single column page.
+const BOOK_HTML_CSS = `
+.book-html img, .book-html svg { max-width: 100%; max-height: 85vh; height: auto; object-fit: contain; }
+.book-html table { max-width: 100%; }
+.book-html section { break-before: column; }
+.book-html section:first-of-type { break-before: auto; }
+.book-html .mobi-pagebreak { break-after: column; }
+`;
+
+const MAX_SEARCH_RESULTS = 500;
+const SEARCH_MATCH_COLOR = '#f97316';
+
+// Text highlights and the current search match are drawn with the CSS
+// Custom Highlight API, which leaves the rendered book DOM untouched. The
+// PDF text layer is transparent text positioned over the canvas so it can
+// be selected.
+const HIGHLIGHT_CSS = HIGHLIGHT_COLOR_NAMES
+  .map(name => `::highlight(annotation-${name}) { background-color: ${HIGHLIGHT_COLORS[name]}66; }`)
+  .join('\n') + `
+::highlight(search-match) { background-color: ${SEARCH_MATCH_COLOR}80; }
+.pdf-text-layer { position: absolute; inset: 0; overflow: hidden; line-height: 1; }
+.pdf-text-layer span, .pdf-text-layer br { position: absolute; color: transparent; white-space: pre; cursor: text; transform-origin: 0% 0%; }
+.pdf-text-layer ::selection { background: rgba(79, 70, 229, 0.25); }
+`;
+
+// Open annotation menu: for a fresh selection until a colour is picked,
+// then for the annotation it created or the one that was clicked.
+interface AnnotationMenuState {
+  x: number;
+  y: number;
+  annotationId?: string;
+  selection?: { anchor: AnnotationAnchor; text: string };
+}
+
+// Flattens EPUB navigation (nav document or NCX) into nested entries.
+const flattenEpubToc = (items: any[], level = 0): TocEntry[] =>
+  items.flatMap(item => [
+    { title: (item.label || '').replace(/\s+/g, ' ').trim(), level, href: item.href },
+    ...flattenEpubToc(item.subitems || [], level + 1)
+  ]).filter(entry => entry.title && entry.href);
+
+// Index of the entry for the chapter being read: the one starting last at
+// or before `current`. Positions are spine indexes, PDF pages or text pages;
+// -1 marks entries that could not be placed.
+const findActiveTocIndex = (positions: number[], current: number): number => {
+  let active = -1;
+  positions.forEach((position, i) => {
+    if (position >= 0 && position <= current && (active < 0 || position >= positions[active])) active = i;
+  });
+  return active;
+};
+
+const findAnchor = (root: HTMLElement, href: string): Element | null =>
+  root.querySelector(`#${CSS.escape(decodeURIComponent(href.slice(1)))}`);
+
+/**
+ * Renders sanitized book HTML sections with the book's stylesheet confined
+ * to the content area.
+ */
+const renderBookHtml = (sections: { id: string; html: string }[], css = ''): React.ReactNode[] => [
+  <style key="book-style">{scopeBookCss(css, '.book-html') + BOOK_HTML_CSS}</style>,
+  <div key="book-html" className="book-html">
+    {sections.map(section => (
+      <section key={section.id} id={section.id} dangerouslySetInnerHTML={{ __html: sanitizeBookHtml(section.html) }} />
+    ))}
+  </div>
+];
 
 interface ReaderViewProps {
   book: Book;
@@ -10,9 +112,10 @@ interface ReaderViewProps {
   onToggleAI: () => void;
   isSidebarOpen: boolean;
   onToggleSidebar: () => void;
+  onBookUpdate: (book: Book) => void;
 }
 
-const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSidebarOpen, onToggleSidebar }) => {
+const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSidebarOpen, onToggleSidebar, onBookUpdate }) => {
   const [settings, setSettings] = useState<ReadingSettings>({
     fontSize: 18,
     lineHeight: 1.6,
@@ -22,30 +125,106 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
 
   const [showSettings, setShowSettings] = useState(false);
   const [engineLoading, setEngineLoading] = useState(true);
+  const [loadProgress, setLoadProgress] = useState<number | null>(null);
   const [currentPage, setCurrentPage] = useState({ current: 1, total: 1, label: '准备中...' });
   const [parsedElements, setParsedElements] = useState<React.ReactNode[]>([]);
   
   const [textPage, setTextPage] = useState(0);
   const [textTotalPages, setTextTotalPages] = useState(1);
   const textContainerRef = useRef<HTMLDivElement>(null);
+  const textColumnsRef = useRef<HTMLDivElement>(null);
+  // Offset of the first character on the current text page; the saved one
+  // until the book is laid out.
+  const textOffsetRef = useRef<number | null>(null);
   const [columnWidth, setColumnWidth] = useState<number>(0);
   const [error, setError] = useState<string | null>(null);
+  const [protection, setProtection] = useState<BookProtection | null>(null);
+  const [passwordPrompt, setPasswordPrompt] = useState<{ incorrect: boolean; submit: (password: string) => void; cancel: () => void } | null>(null);
+  const [passwordInput, setPasswordInput] = useState('');
+  // Bumped to reopen the book, e.g. to retry a PDF password.
+  const [reloadKey, setReloadKey] = useState(0);
+  // Only files stored as raw bytes can be re-decoded with another encoding.
+  const [canReencode, setCanReencode] = useState(false);
   
   const [pdfDoc, setPdfDoc] = useState<any>(null);
   const [pageNum, setPageNum] = useState(1);
   const pdfCanvasRef = useRef<HTMLCanvasElement>(null);
+  const pdfContainerRef = useRef<HTMLDivElement>(null);
+  const pdfTextLayerRef = useRef<HTMLDivElement>(null);
+  // Viewport of the page on screen, in CSS pixels.
+  const [pdfViewport, setPdfViewport] = useState<any>(null);
+  const pdfRenderIdRef = useRef(0);
   const pageNumRef = useRef(1); 
 
   const renditionRef = useRef<any>(null);
   const bookInstanceRef = useRef<any>(null);
   const viewerRef = useRef<HTMLDivElement>(null); 
+  // Object URLs for the open book's images and fonts.
+  const resourceUrlsRef = useRef<string[]>([]);
+  const [toc, setToc] = useState<TocEntry[]>([]);
+  const [showToc, setShowToc] = useState(false);
+  // Where each TOC entry starts, in the units `findActiveTocIndex` compares.
+  const [tocPositions, setTocPositions] = useState<number[]>([]);
+  const [epubSpineIndex, setEpubSpineIndex] = useState(0);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [annotationMenu, setAnnotationMenu] = useState<AnnotationMenuState | null>(null);
+  const [showNotes, setShowNotes] = useState(false);
+  const [bookmarks, setBookmarks] = useState<BookmarkEntry[]>([]);
+  const [showBookmarks, setShowBookmarks] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [search, setSearch] = useState<{
+    query: string;
+    options: SearchOptions;
+    results: SearchResult[];
+    searching: boolean;
+    truncated: boolean;
+    activeIndex: number;
+  }>({ query: '', options: { matchCase: false, wholeWord: false }, results: [], searching: false, truncated: false, activeIndex: -1 });
+  // Match jumped to last, highlighted until the next search.
+  const [searchHit, setSearchHit] = useState<SearchTarget | null>(null);
+  const searchIdRef = useRef(0);
+  const epubSearchHighlightRef = useRef<string | null>(null);
+  // Bumped whenever the PDF text layer is rebuilt.
+  const [pdfTextLayerVersion, setPdfTextLayerVersion] = useState(0);
+  // Where the reader is now, as last recorded for the reading progress.
+  const [location, setLocation] = useState<{ locator: ReadingLocator; percentage: number } | null>(null);
+  // CFI ranges highlighted in the rendition, with their colour.
+  const epubHighlightsRef = useRef(new Map<string, HighlightColor>());
   const resizeTimeoutRef = useRef<any>(null);
+  const progressTimeoutRef = useRef<any>(null);
+  const pendingProgressRef = useRef<{ bookId: string; locator: ReadingLocator; percentage: number } | null>(null);
+  // Latest props for the debounced progress writer.
+  const bookRef = useRef(book);
+  const onBookUpdateRef = useRef(onBookUpdate);
 
   // --- 触摸滑动状态 ---
   const touchStartRef = useRef<{ x: number, y: number } | null>(null);
   const minSwipeDistance = 50; // 最小滑动距离触发翻页
 
   useEffect(() => { pageNumRef.current = pageNum; }, [pageNum]);
+  useEffect(() => { bookRef.current = book; onBookUpdateRef.current = onBookUpdate; }, [book, onBookUpdate]);
+
+  // --- Reading progress ---
+  const flushProgress = useCallback(() => {
+    clearTimeout(progressTimeoutRef.current);
+    const pending = pendingProgressRef.current;
+    if (!pending) return;
+    pendingProgressRef.current = null;
+    const now = Date.now();
+    saveReadingProgressToDB({ ...pending, updatedAt: now })
+      .catch(e => console.error("Save reading progress failed", e));
+    const current = bookRef.current;
+    if (current.id === pending.bookId && (!current.lastRead || now - current.lastRead > LAST_READ_INTERVAL)) {
+      onBookUpdateRef.current({ ...current, lastRead: now });
+    }
+  }, []);
+
+  const recordProgress = useCallback((locator: ReadingLocator, percentage: number) => {
+    pendingProgressRef.current = { bookId: bookRef.current.id, locator, percentage: Math.max(0, Math.min(1, percentage)) };
+    setLocation({ locator, percentage: pendingProgressRef.current.percentage });
+    clearTimeout(progressTimeoutRef.current);
+    progressTimeoutRef.current = setTimeout(flushProgress, PROGRESS_SAVE_DELAY);
+  }, [flushProgress]);
 
   const themeConfig = {
     dark: { bg: '#121212', text: '#d1d5db', paper: '#1e1e1e', border: '#333' },
@@ -122,39 +301,435 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [prevPage, nextPage]);
 
+  // Internal links in rendered book HTML jump to the column page holding the target.
+  const jumpToAnchor = (href: string) => {
+    const container = textContainerRef.current;
+    if (!container) return;
+    const target = findAnchor(container, href);
+    if (!target) return;
+    const gap = COLUMN_GAP;
+    const offset = target.getBoundingClientRect().left - container.getBoundingClientRect().left + container.scrollLeft;
+    setTextPage(Math.max(0, Math.min(textTotalPages - 1, Math.floor(offset / (container.clientWidth + gap)))));
+  };
+
+  const handleContentClick = (e: React.MouseEvent) => {
+    const href = (e.target as HTMLElement).closest('a')?.getAttribute('href');
+    if (href && href.startsWith('#')) {
+      e.preventDefault();
+      jumpToAnchor(href);
+      return;
+    }
+    // A plain click on highlighted text opens its annotation.
+    const columns = textColumnsRef.current;
+    if (!columns || !window.getSelection()?.isCollapsed) return;
+    const offset = textOffsetAtPoint(columns, e.clientX, e.clientY);
+    if (offset === null) return;
+    const hit = annotations.find(a => a.anchor.type === 'text' && offset >= a.anchor.start && offset < a.anchor.end);
+    if (hit) setAnnotationMenu({ x: e.clientX, y: e.clientY, annotationId: hit.id });
+  };
+
+  const handlePdfClick = (e: React.MouseEvent) => {
+    const layer = pdfTextLayerRef.current;
+    if (!layer || !pdfViewport || !window.getSelection()?.isCollapsed) return;
+    const origin = layer.getBoundingClientRect();
+    const [x, y] = pdfViewport.convertToPdfPoint(e.clientX - origin.left, e.clientY - origin.top);
+    const hit = annotations.find(a =>
+      a.anchor.type === 'pdf' && a.anchor.page === pageNum && a.anchor.quads.some(quad => quadContains(quad, x, y)));
+    if (hit) setAnnotationMenu({ x: e.clientX, y: e.clientY, annotationId: hit.id });
+  };
+
+  const showTextOffset = (offset: number) => {
+    if (!textColumnsRef.current || columnWidth <= 0) return;
+    const page = pageAtTextOffset(textColumnsRef.current, offset, columnWidth + COLUMN_GAP);
+    textOffsetRef.current = offset;
+    setTextPage(Math.max(0, Math.min(textTotalPages - 1, page)));
+  };
+
+  const handleTocSelect = (entry: TocEntry) => {
+    setShowToc(false);
+    if (book.format === 'epub') {
+      renditionRef.current?.display(entry.href);
+    } else if (book.format === 'pdf') {
+      if (entry.page) setPageNum(entry.page);
+    } else if (entry.href) {
+      jumpToAnchor(entry.href);
+    }
+  };
+
+  // --- Annotations ---
+  const storeAnnotation = (annotation: Annotation) => {
+    setAnnotations(prev => [...prev.filter(a => a.id !== annotation.id), annotation]);
+    saveAnnotationToDB(annotation).catch(e => console.error("Save annotation failed", e));
+  };
+
+  const createAnnotation = (color: HighlightColor) => {
+    const selection = annotationMenu?.selection;
+    if (!selection) return;
+    const now = Date.now();
+    const annotation: Annotation = {
+      id: createAnnotationId(),
+      bookId: book.id,
+      anchor: selection.anchor,
+      text: selection.text,
+      color,
+      createdAt: now,
+      updatedAt: now
+    };
+    storeAnnotation(annotation);
+    setAnnotationMenu(menu => menu && { x: menu.x, y: menu.y, annotationId: annotation.id });
+    clearSelection();
+  };
+
+  const updateAnnotation = (id: string, changes: Partial<Pick<Annotation, 'color' | 'note'>>) => {
+    const current = annotations.find(a => a.id === id);
+    if (current) storeAnnotation({ ...current, ...changes, updatedAt: Date.now() });
+  };
+
+  const removeAnnotation = (id: string) => {
+    setAnnotations(prev => prev.filter(a => a.id !== id));
+    deleteAnnotationFromDB(id).catch(e => console.error("Delete annotation failed", e));
+  };
+
+  const clearSelection = () => {
+    window.getSelection()?.removeAllRanges();
+    renditionRef.current?.getContents?.().forEach((contents: any) => contents.window?.getSelection()?.removeAllRanges());
+  };
+
+  const goToAnnotation = (annotation: Annotation) => {
+    setShowNotes(false);
+    const anchor = annotation.anchor;
+    if (anchor.type === 'epub') {
+      renditionRef.current?.display(anchor.cfiRange);
+    } else if (anchor.type === 'pdf') {
+      setPageNum(anchor.page);
+    } else {
+      showTextOffset(anchor.start);
+    }
+  };
+
+  // --- Bookmarks ---
+  const addBookmark = (label: string) => {
+    if (!location) return;
+    const bookmark: BookmarkEntry = {
+      id: 'bookmark-' + Date.now() + '-' + Math.random().toString(36).slice(2, 7),
+      bookId: book.id,
+      locator: location.locator,
+      label: label || undefined,
+      chapter: toc[activeTocIndex]?.title,
+      percentage: location.percentage,
+      createdAt: Date.now()
+    };
+    setBookmarks(prev => [...prev, bookmark]);
+    saveBookmarkToDB(bookmark).catch(e => console.error("Save bookmark failed", e));
+  };
+
+  const removeBookmark = (id: string) => {
+    setBookmarks(prev => prev.filter(b => b.id !== id));
+    deleteBookmarkFromDB(id).catch(e => console.error("Delete bookmark failed", e));
+  };
+
+  const goToBookmark = (bookmark: BookmarkEntry) => {
+    setShowBookmarks(false);
+    const locator = bookmark.locator;
+    if (locator.type === 'epub') renditionRef.current?.display(locator.cfi);
+    else if (locator.type === 'pdf') setPageNum(locator.page);
+    else showTextOffset(locator.offset);
+  };
+
+  // --- Search ---
+  // Searches the whole book: every EPUB spine item, every PDF page, or the
+  // rendered text of the other formats. Results come in as they are found;
+  // a newer search makes an older one stop.
+  const runSearch = async (query: string, options: SearchOptions) => {
+    const searchId = ++searchIdRef.current;
+    const stale = () => searchId !== searchIdRef.current;
+    setSearchHit(null);
+    setSearch({ query: query.trim(), options, results: [], searching: !!query.trim(), truncated: false, activeIndex: -1 });
+    if (!query.trim()) return;
+
+    const results: SearchResult[] = [];
+    let truncated = false;
+    const publish = (searching: boolean) => {
+      if (!stale()) setSearch(prev => ({ ...prev, results: [...results], searching, truncated }));
+    };
+    const chapterAt = (position: number) => toc[findActiveTocIndex(tocPositions, position)]?.title;
+    const collect = (text: string, toTarget: (start: number, end: number) => SearchTarget | null, chapter?: string) => {
+      for (const match of findMatches(text, query, options, MAX_SEARCH_RESULTS - results.length + 1)) {
+        if (results.length >= MAX_SEARCH_RESULTS) {
+          truncated = true;
+          return;
+        }
+        const target = toTarget(match.start, match.end);
+        if (target) results.push({ target, chapter, excerpt: excerptAt(text, match) });
+      }
+    };
+
+    try {
+      if (book.format === 'epub') {
+        const epub = bookInstanceRef.current;
+        for (const section of epub?.spine?.spineItems || []) {
+          if (stale() || truncated) break;
+          await section.load(epub.load.bind(epub));
+          const root = (section.document?.body || section.document?.documentElement) as HTMLElement | undefined;
+          if (root) {
+            collect(renderedText(root), (start, end) => {
+              const range = textRangeFromOffsets(root, start, end);
+              return range ? { type: 'epub', cfiRange: section.cfiFromRange(range) } : null;
+            }, chapterAt(section.index));
+          }
+          section.unload();
+          publish(true);
+        }
+      } else if (book.format === 'pdf' && pdfDoc) {
+        for (let page = 1; page <= pdfDoc.numPages; page++) {
+          if (stale() || truncated) break;
+          const content = await (await pdfDoc.getPage(page)).getTextContent();
+          collect(pdfPageText(content.items), (start, end) => ({ type: 'pdf', page, start, end }), chapterAt(page));
+          if (page % 20 === 0) publish(true);
+        }
+      } else if (textColumnsRef.current) {
+        // Chapters are told apart by where their headings start in the text,
+        // which does not change with the pagination.
+        const columns = textColumnsRef.current;
+        const headingOffsets = toc.map(entry => {
+          const target = entry.href && findAnchor(columns, entry.href);
+          return target ? textOffsetOfBoundary(columns, target, 0) : -1;
+        });
+        const text = renderedText(columns);
+        for (const match of findMatches(text, query, options, MAX_SEARCH_RESULTS + 1)) {
+          if (results.length >= MAX_SEARCH_RESULTS) {
+            truncated = true;
+            break;
+          }
+          results.push({
+            target: { type: 'text', start: match.start, end: match.end },
+            chapter: toc[findActiveTocIndex(headingOffsets, match.start)]?.title,
+            excerpt: excerptAt(text, match)
+          });
+        }
+      }
+    } catch (e) {
+      console.error("Search failed", e);
+    }
+    publish(false);
+  };
+
+  const selectSearchResult = (index: number) => {
+    const target = search.results[index]?.target;
+    if (!target) return;
+    setShowSearch(false);
+    setSearch(prev => ({ ...prev, activeIndex: index }));
+    setSearchHit(target);
+    if (target.type === 'epub') renditionRef.current?.display(target.cfiRange);
+    else if (target.type === 'pdf') setPageNum(target.page);
+    else showTextOffset(target.start);
+  };
+
+  // Offers the annotation menu for text selected on a text page or in the
+  // PDF text layer. EPUB selections arrive through the rendition instead.
+  const captureSelection = useCallback(() => {
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed || selection.rangeCount === 0) return;
+    const range = selection.getRangeAt(0);
+    const text = selection.toString().replace(/\s+/g, ' ').trim();
+    if (!text) return;
+
+    let anchor: AnnotationAnchor | null = null;
+    const columns = textColumnsRef.current;
+    const textLayer = pdfTextLayerRef.current;
+    if (columns?.contains(range.commonAncestorContainer)) {
+      const start = textOffsetOfBoundary(columns, range.startContainer, range.startOffset);
+      const end = textOffsetOfBoundary(columns, range.endContainer, range.endOffset);
+      if (end > start) anchor = { type: 'text', start, end };
+    } else if (textLayer?.contains(range.commonAncestorContainer) && pdfViewport) {
+      const quads = rectsToQuads(Array.from(range.getClientRects()), textLayer.getBoundingClientRect(), pdfViewport);
+      if (quads.length > 0) anchor = { type: 'pdf', page: pageNumRef.current, quads };
+    }
+    if (!anchor) return;
+
+    const rect = range.getBoundingClientRect();
+    setAnnotationMenu({ x: rect.left + rect.width / 2, y: rect.top, selection: { anchor, text } });
+  }, [pdfViewport]);
+
+  // Mouse selections are read when the button is released; touch and
+  // keyboard selections once they stop changing.
+  useEffect(() => {
+    let timer: any;
+    let pointerDown = false;
+    const onPointerDown = () => { pointerDown = true; };
+    const onPointerUp = () => {
+      pointerDown = false;
+      clearTimeout(timer);
+      timer = setTimeout(captureSelection, 0);
+    };
+    const onPointerCancel = () => { pointerDown = false; };
+    const onSelectionChange = () => {
+      clearTimeout(timer);
+      if (!pointerDown) timer = setTimeout(captureSelection, 500);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    document.addEventListener('pointerup', onPointerUp);
+    document.addEventListener('pointercancel', onPointerCancel);
+    document.addEventListener('selectionchange', onSelectionChange);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener('pointerdown', onPointerDown);
+      document.removeEventListener('pointerup', onPointerUp);
+      document.removeEventListener('pointercancel', onPointerCancel);
+      document.removeEventListener('selectionchange', onSelectionChange);
+    };
+  }, [captureSelection]);
+
+  // Text highlights follow the annotations and every re-render of the book.
+  useEffect(() => {
+    const columns = textColumnsRef.current;
+    const registry = (CSS as any).highlights;
+    const HighlightClass = (window as any).Highlight;
+    if (!columns || !registry || !HighlightClass) return;
+    const ranges = new Map<HighlightColor, Range[]>();
+    for (const annotation of annotations) {
+      if (annotation.anchor.type !== 'text') continue;
+      const range = textRangeFromOffsets(columns, annotation.anchor.start, annotation.anchor.end);
+      if (range) ranges.set(annotation.color, [...(ranges.get(annotation.color) || []), range]);
+    }
+    HIGHLIGHT_COLOR_NAMES.forEach(name => {
+      const list = ranges.get(name);
+      if (list) registry.set(`annotation-${name}`, new HighlightClass(...list));
+      else registry.delete(`annotation-${name}`);
+    });
+    return () => HIGHLIGHT_COLOR_NAMES.forEach(name => registry.delete(`annotation-${name}`));
+  }, [annotations, parsedElements, engineLoading]);
+
+  // EPUB highlights are drawn by the rendition; only changes are applied.
+  useEffect(() => {
+    const rendition = renditionRef.current;
+    if (book.format !== 'epub' || !rendition || engineLoading) return;
+    const drawn = epubHighlightsRef.current;
+    const wanted = new Map<string, Annotation>();
+    annotations.forEach(a => { if (a.anchor.type === 'epub') wanted.set(a.anchor.cfiRange, a); });
+
+    for (const [cfiRange, color] of drawn) {
+      if (wanted.get(cfiRange)?.color === color) continue;
+      rendition.annotations.remove(cfiRange, 'highlight');
+      drawn.delete(cfiRange);
+    }
+    for (const [cfiRange, annotation] of wanted) {
+      if (drawn.has(cfiRange)) continue;
+      rendition.annotations.highlight(
+        cfiRange,
+        { id: annotation.id },
+        (e: MouseEvent) => setAnnotationMenu({ x: e?.clientX ?? window.innerWidth / 2, y: e?.clientY ?? 120, annotationId: annotation.id }),
+        'annotation-highlight',
+        { fill: HIGHLIGHT_COLORS[annotation.color], 'fill-opacity': '0.35', 'mix-blend-mode': 'multiply' }
+      );
+      drawn.set(cfiRange, annotation.color);
+    }
+  }, [annotations, engineLoading, book.format]);
+
+  // The search match jumped to is highlighted on text pages and on the PDF
+  // text layer once that is rendered.
+  useEffect(() => {
+    const registry = (CSS as any).highlights;
+    const HighlightClass = (window as any).Highlight;
+    if (!registry || !HighlightClass || !searchHit) return;
+    let range: Range | null = null;
+    if (searchHit.type === 'text' && textColumnsRef.current) {
+      range = textRangeFromOffsets(textColumnsRef.current, searchHit.start, searchHit.end);
+    } else if (searchHit.type === 'pdf' && searchHit.page === pageNum && pdfTextLayerRef.current) {
+      range = pdfTextLayerRange(pdfTextLayerRef.current, searchHit.start, searchHit.end);
+    }
+    if (!range) return;
+    registry.set('search-match', new HighlightClass(range));
+    return () => registry.delete('search-match');
+  }, [searchHit, pageNum, pdfTextLayerVersion, parsedElements, engineLoading]);
+
+  useEffect(() => {
+    const rendition = renditionRef.current;
+    if (book.format !== 'epub' || !rendition || engineLoading) return;
+    const cfiRange = searchHit?.type === 'epub' ? searchHit.cfiRange : null;
+    if (epubSearchHighlightRef.current === cfiRange) return;
+    if (epubSearchHighlightRef.current) rendition.annotations.remove(epubSearchHighlightRef.current, 'underline');
+    // Drawn as an underline mark so it never replaces an annotation's highlight.
+    if (cfiRange) {
+      rendition.annotations.underline(cfiRange, {}, undefined, 'search-match', {
+        stroke: SEARCH_MATCH_COLOR, 'stroke-width': '3', 'stroke-opacity': '0.9'
+      });
+    }
+    epubSearchHighlightRef.current = cfiRange;
+  }, [searchHit, engineLoading, book.format]);
+
+  const editingAnnotation = annotationMenu?.annotationId ? annotations.find(a => a.id === annotationMenu.annotationId) : undefined;
+
+  const activeTocIndex = findActiveTocIndex(
+    tocPositions,
+    book.format === 'epub' ? epubSpineIndex : book.format === 'pdf' ? pageNum : textPage
+  );
+
+  // Text chapters move between pages with every repagination.
+  useEffect(() => {
+    if (!['txt', 'fb2', 'rtf', 'mobi', 'azw3'].includes(book.format)) return;
+    const columns = textColumnsRef.current;
+    if (!columns || columnWidth <= 0) return;
+    setTocPositions(toc.map(entry => {
+      const target = entry.href && findAnchor(columns, entry.href);
+      return target ? pageOfElement(columns, target, columnWidth + COLUMN_GAP) : -1;
+    }));
+  }, [book.format, toc, parsedElements, columnWidth, textTotalPages, settings.fontSize, settings.lineHeight]);
+
   // Content rendering effects...
   useEffect(() => {
      if (['txt', 'fb2', 'rtf', 'mobi', 'azw3'].includes(book.format) && textContainerRef.current) {
-       const gap = 40;
+       const gap = COLUMN_GAP;
        const width = textContainerRef.current.clientWidth;
        textContainerRef.current.scrollTo({
          left: textPage * (width + gap),
          behavior: 'smooth'
        });
        setCurrentPage({ current: textPage + 1, total: textTotalPages, label: `${textPage + 1} / ${textTotalPages}` });
+
+       // A page restored from the offset keeps that exact offset; any other
+       // page is saved from its first character.
+       const columns = textColumnsRef.current;
+       if (columns && width > 0) {
+         const known = textOffsetRef.current;
+         const offset = known !== null && pageAtTextOffset(columns, known, width + gap) === textPage
+           ? known
+           : textOffsetAtPage(columns, textPage, width + gap);
+         textOffsetRef.current = offset;
+         const length = renderedTextLength(columns);
+         recordProgress({ type: 'text', offset }, length > 0 ? offset / length : 0);
+       }
     }
-  }, [textPage, textTotalPages, book.format]);
+  }, [textPage, textTotalPages, book.format, recordProgress]);
 
+  // Pagination. Measured again once the column width is applied, since the
+  // columns only exist from then on.
   useEffect(() => {
     if (!['txt', 'fb2', 'rtf', 'mobi', 'azw3'].includes(book.format)) return;
     if (!textContainerRef.current) return;
     const calc = () => {
         if (!textContainerRef.current) return;
-        const gap = 40;
+        const gap = COLUMN_GAP;
         const clientW = textContainerRef.current.clientWidth;
         const scrollW = textContainerRef.current.scrollWidth;
         setColumnWidth(clientW);
         const total = Math.max(1, Math.ceil(scrollW / (clientW + gap)));
         if (total !== textTotalPages) { setTextTotalPages(total); if (textPage >= total) setTextPage(total - 1); }
+        // Repagination moves text between pages; stay with the same text.
+        const offset = textOffsetRef.current;
+        if (offset !== null && textColumnsRef.current && clientW > 0) {
+          setTextPage(Math.min(total - 1, pageAtTextOffset(textColumnsRef.current, offset, clientW + gap)));
+        }
     };
     const observer = new ResizeObserver(() => window.requestAnimationFrame(() => calc()));
     observer.observe(textContainerRef.current);
     return () => observer.disconnect();
-  }, [book.format, parsedElements, settings.fontSize, settings.lineHeight]);
+  }, [book.format, parsedElements, settings.fontSize, settings.lineHeight, columnWidth]);
 
   // --- PDF RENDERER IMPROVED ---
   const renderPdfPage = useCallback(async (num: number, doc: any) => {
     if (!doc || !pdfCanvasRef.current) return;
+    const renderId = ++pdfRenderIdRef.current;
     try {
       const page = await doc.getPage(num);
       const canvas = pdfCanvasRef.current;
@@ -162,7 +737,7 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
       if (!context) return;
 
       // Get accurate container width
-      const container = canvas.parentElement || document.body;
+      const container = pdfContainerRef.current || document.body;
       const containerWidth = container.clientWidth;
       
       // Calculate logical target width (responsive, max 1000px)
@@ -194,13 +769,33 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
       
       await page.render(renderContext).promise;
       setCurrentPage({ current: num, total: doc.numPages, label: `${num} / ${doc.numPages}` });
+
+      // Selectable text over the canvas, for highlights. A newer render
+      // owns the layer once this one is outdated.
+      const textLayer = pdfTextLayerRef.current;
+      if (!textLayer || renderId !== pdfRenderIdRef.current) return;
+      const cssViewport = page.getViewport({ scale: scaleFactor });
+      setPdfViewport(cssViewport);
+      const textContent = await page.getTextContent();
+      if (renderId !== pdfRenderIdRef.current) return;
+      textLayer.replaceChildren();
+      textLayer.style.setProperty('--scale-factor', String(scaleFactor));
+      await (window as any).pdfjsLib.renderTextLayer({
+        textContentSource: textContent,
+        container: textLayer,
+        viewport: cssViewport,
+        textDivs: []
+      }).promise;
+      setPdfTextLayerVersion(v => v + 1);
     } catch (err) { console.error(err); }
   }, []);
 
   // Trigger PDF Render on Page Change
   useEffect(() => {
-    if (book.format === 'pdf' && pdfDoc) renderPdfPage(pageNum, pdfDoc);
-  }, [pageNum, pdfDoc, renderPdfPage, book.format]);
+    if (book.format !== 'pdf' || !pdfDoc) return;
+    renderPdfPage(pageNum, pdfDoc);
+    recordProgress({ type: 'pdf', page: pageNum }, pdfDoc.numPages > 1 ? (pageNum - 1) / (pdfDoc.numPages - 1) : 1);
+  }, [pageNum, pdfDoc, renderPdfPage, book.format, recordProgress]);
 
   // Trigger PDF Render on Window Resize
   useEffect(() => {
@@ -219,13 +814,46 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
   // Init Engine Effect
   useEffect(() => {
     let isMounted = true;
+    const parseController = new AbortController();
+    let passwordCancelled = false;
     const initReader = async () => {
-      setEngineLoading(true); setError(null);
+      setEngineLoading(true); setLoadProgress(null); setError(null); setToc([]); setTocPositions([]); setProtection(null); setPasswordPrompt(null);
+      setCanReencode(false);
+      setAnnotations([]); setAnnotationMenu(null); setBookmarks([]); setLocation(null);
+      searchIdRef.current++; setSearchHit(null);
+      setSearch(prev => ({ ...prev, query: '', results: [], searching: false, truncated: false, activeIndex: -1 }));
       try {
+        const content = await loadBookContent(book.id);
+        if (!isMounted) return;
+
+        // PDFs are checked by pdf.js itself through onPassword below.
+        if (book.format !== 'pdf') {
+          const detected = await detectProtection(book.format, content);
+          if (!isMounted) return;
+          if (detected !== book.protection) onBookUpdate({ ...book, protection: detected });
+          if (detected) {
+            setProtection(detected);
+            setEngineLoading(false);
+            return;
+          }
+        }
+        const saved = await getReadingProgressFromDB(book.id).catch(e => {
+          console.error("Load reading progress failed", e);
+          return null;
+        });
+        if (!isMounted) return;
+        textOffsetRef.current = saved?.locator.type === 'text' ? saved.locator.offset : null;
+        getAnnotationsFromDB(book.id)
+          .then(list => { if (isMounted) setAnnotations(list); })
+          .catch(e => console.error("Load annotations failed", e));
+        getBookmarksFromDB(book.id)
+          .then(list => { if (isMounted) setBookmarks(list); })
+          .catch(e => console.error("Load bookmarks failed", e));
+
         // Safe clone to prevent "detached ArrayBuffer" when libraries transfer ownership
-        const contentData = book.content instanceof ArrayBuffer 
-          ? book.content.slice(0) 
-          : book.content;
+        const contentData = content instanceof ArrayBuffer 
+          ? content.slice(0) 
+          : content;
 
         if (book.format === 'epub') {
           if (bookInstanceRef.current) await bookInstanceRef.current.destroy();
@@ -236,6 +864,27 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
           if (!viewerRef.current) throw new Error("Container missing");
           const rendition = epub.renderTo(viewerRef.current, { width: '100%', height: '100%', flow: 'paginated', manager: 'default' });
           renditionRef.current = rendition;
+          epubHighlightsRef.current = new Map();
+          epubSearchHighlightRef.current = null;
+          rendition.on('selected', (cfiRange: string, contents: any) => {
+            const selection = contents.window.getSelection();
+            const text = selection?.toString().replace(/\s+/g, ' ').trim();
+            if (!isMounted || !text || selection.rangeCount === 0) return;
+            // Selection rects are relative to the chapter's iframe.
+            const rect = selection.getRangeAt(0).getBoundingClientRect();
+            const frame = contents.window.frameElement?.getBoundingClientRect();
+            setAnnotationMenu({
+              x: (frame?.left ?? 0) + rect.left + rect.width / 2,
+              y: (frame?.top ?? 0) + rect.top,
+              selection: { anchor: { type: 'epub', cfiRange }, text }
+            });
+          });
+          epub.loaded.navigation.then((navigation: any) => {
+            if (!isMounted) return;
+            const entries = flattenEpubToc(navigation?.toc || []);
+            setToc(entries);
+            setTocPositions(entries.map(entry => epub.spine.get(entry.href)?.index ?? -1));
+          }).catch((e: any) => console.warn("Could not read EPUB navigation", e));
           
           // --- EPUB 内部触摸事件绑定 ---
           rendition.on('touchstart', (e: any) => {
@@ -262,13 +911,17 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
              touchStartRef.current = null;
           });
 
-          await rendition.display();
+          // A CFI saved from an earlier edition of the file may no longer resolve.
+          const savedCfi = saved?.locator.type === 'epub' ? saved.locator.cfi : undefined;
+          await rendition.display(savedCfi).catch(() => rendition.display());
           if (isMounted) setEngineLoading(false);
           rendition.on('relocated', (location: any) => {
              if (isMounted && location?.start) {
                const percent = epub.locations.percentageFromCfi(location.start.cfi);
                const p = typeof percent === 'number' ? Math.round(percent * 100) : 0;
                setCurrentPage(prev => ({ ...prev, current: p, label: `${p}%` }));
+               setEpubSpineIndex(location.start.index ?? 0);
+               recordProgress({ type: 'epub', cfi: location.start.cfi }, typeof percent === 'number' ? percent : 0);
              }
           });
           epub.ready.then(() => epub.locations.generate(1000));
@@ -276,45 +929,95 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
           const pdfjsLib = (window as any).pdfjsLib;
           pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdn.jsdelivr.net/npm/pdfjs-dist@3.4.120/build/pdf.worker.min.js';
           const loadingTask = pdfjsLib.getDocument({ data: contentData });
+          let protectionRecorded = book.protection === 'password';
+          loadingTask.onPassword = (updatePassword: (password: string) => void, reason: number) => {
+            if (!isMounted) return;
+            if (!protectionRecorded) {
+              protectionRecorded = true;
+              onBookUpdate({ ...book, protection: 'password' });
+            }
+            setPasswordInput('');
+            setEngineLoading(false);
+            setPasswordPrompt({
+              incorrect: reason === pdfjsLib.PasswordResponses.INCORRECT_PASSWORD,
+              submit: (password) => { setPasswordPrompt(null); setEngineLoading(true); updatePassword(password); },
+              cancel: () => { passwordCancelled = true; setPasswordPrompt(null); setProtection('password'); loadingTask.destroy(); }
+            });
+          };
           const doc = await loadingTask.promise;
-          if (isMounted) { setPdfDoc(doc); setEngineLoading(false); setPageNum(1); }
+          const savedPage = saved?.locator.type === 'pdf' ? Math.max(1, Math.min(doc.numPages, saved.locator.page)) : 1;
+          if (isMounted) { setPdfDoc(doc); setEngineLoading(false); setPageNum(savedPage); }
+          const outline = (await readPdfOutline(doc)).filter(entry => entry.title);
+          if (isMounted) { setToc(outline); setTocPositions(outline.map(entry => entry.page)); }
+        } else if (book.format === 'azw3' && contentData instanceof ArrayBuffer && isKf8(contentData)) {
+          const kf8 = await parseKf8Book(contentData, { signal: parseController.signal, onProgress: setLoadProgress });
+          if (!isMounted) { releaseParsedBook(kf8); return; }
+          resourceUrlsRef.current = kf8.resourceUrls;
+          setToc(kf8.toc);
+          setParsedElements(renderBookHtml(
+            kf8.parts.map(part => ({ id: part.anchor, html: part.html })),
+            kf8.styles.join('\n')
+          ));
+          setEngineLoading(false);
+        } else if (book.format === 'mobi' || book.format === 'azw3') {
+          const mobi = await parseMobiBook(contentData as ArrayBuffer, { signal: parseController.signal, onProgress: setLoadProgress });
+          if (!isMounted) { releaseParsedBook(mobi); return; }
+          resourceUrlsRef.current = mobi.resourceUrls;
+          setToc(mobi.toc);
+          setParsedElements(renderBookHtml([{ id: 'mobi-text', html: mobi.html }]));
+          setEngineLoading(false);
         } else {
-          // MOBI/TXT/FB2 etc...
-          let rawText = "";
-          
-          if (book.format === 'mobi' || book.format === 'azw3') {
-             rawText = await parseMobi(contentData as ArrayBuffer);
-          } else if (book.format === 'fb2') {
-             const decoder = new TextDecoder('utf-8');
-             rawText = decoder.decode(contentData as ArrayBuffer);
-          } else {
-             // TXT, RTF
-             rawText = typeof contentData === 'string' ? contentData : new TextDecoder().decode(contentData as ArrayBuffer);
-          }
+          // FB2, TXT, RTF
+          const rawText = decodeBookContent(contentData, book.format, book.encoding);
+          setCanReencode(contentData instanceof ArrayBuffer);
           
           if (!isMounted) return;
 
           const elements: React.ReactNode[] = [];
           
-          if (['mobi', 'azw3', 'fb2'].includes(book.format)) {
-             // Parse HTML/XML Structure for better rendering
+          if (book.format === 'rtf') {
+             const rtf = await parseRtfDocument(rawText, { signal: parseController.signal });
+             if (!isMounted) return;
+             elements.push(...renderBookHtml([{ id: 'rtf-text', html: rtfToHtml(rtf) }]));
+             // Documents without heading styles get the plain-text headings.
+             const styled = rtfToc(rtf);
+             setToc(styled.length > 0 ? styled : detectHeadings(rtf.paragraphs.map(paragraphText)).map(heading => ({
+               title: heading.title,
+               level: heading.level,
+               href: `#${rtfParagraphId(heading.line)}`
+             })));
+          } else if (book.format === 'fb2') {
+             // Parse XML Structure for better rendering
              const parser = new DOMParser();
-             const type = book.format === 'fb2' ? 'text/xml' : 'text/html';
-             const doc = parser.parseFromString(rawText, type as DOMParserSupportedType);
+             const doc = parser.parseFromString(rawText, 'text/xml');
              
              // Extract paragraph-like elements
              const blocks = doc.querySelectorAll('p, div, h1, h2, h3, h4, h5, h6, title, section-title');
              
              if (blocks.length > 0) {
+                 const entries: TocEntry[] = [];
                  blocks.forEach((block, i) => {
+                     // Paragraphs of a title are rendered with the title itself.
+                     if (block.localName !== 'title' && block.parentElement?.closest('title')) return;
                      const t = block.textContent?.trim();
-                     if (t) {
-                       // Simple check to avoid huge blocks if div wraps everything
-                       if (t.length > 0) {
-                          elements.push(<p key={i} className="mb-4 indent-8 text-justify">{t}</p>);
+                     if (!t) return;
+                     if (block.localName === 'title') {
+                       const title = Array.from(block.children).map(line => line.textContent?.trim()).filter(Boolean).join(' ') || t;
+                       const id = `fb2-title-${i}`;
+                       // Section titles make up the contents, nested like their sections.
+                       if (block.parentElement?.localName === 'section') {
+                         let level = -1;
+                         for (let el: Element | null = block.parentElement; el; el = el.parentElement) {
+                           if (el.localName === 'section') level++;
+                         }
+                         entries.push({ title, level, href: `#${id}` });
                        }
+                       elements.push(<h3 key={i} id={id} className="mt-8 mb-6 text-center font-bold">{title}</h3>);
+                     } else {
+                       elements.push(<p key={i} className="mb-4 indent-8 text-justify">{t}</p>);
                      }
                  });
+                 setToc(entries);
              } else {
                  // Fallback if no structural tags found
                  const bodyText = doc.body ? doc.body.innerText : (doc.documentElement.textContent || rawText);
@@ -323,20 +1026,36 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
                  });
              }
           } else {
-             // Plain Text
-             rawText.split(/\r?\n/).forEach((l, i) => {
-                if (l.trim()) elements.push(<p key={i} className="mb-4 indent-8 text-justify">{l.trim()}</p>);
+             // Plain Text, with detected chapter headings as contents
+             const lines = rawText.split(/\r?\n/);
+             const headings = detectHeadings(lines);
+             const headingLines = new Set(headings.map(heading => heading.line));
+             lines.forEach((l, i) => {
+                if (!l.trim()) return;
+                if (headingLines.has(i)) elements.push(<h3 key={i} id={`txt-line-${i}`} className="mt-8 mb-6 text-center font-bold">{l.trim()}</h3>);
+                else elements.push(<p key={i} className="mb-4 indent-8 text-justify">{l.trim()}</p>);
              });
+             setToc(headings.map(heading => ({ title: heading.title, level: heading.level, href: `#txt-line-${heading.line}` })));
           }
 
           setParsedElements(elements);
           setEngineLoading(false);
         }
-      } catch (err: any) { console.error(err); if (isMounted) { setError(err.message); setEngineLoading(false); } }
+      } catch (err: any) {
+        if (passwordCancelled) return;
+        console.error(err);
+        if (isMounted) { setError(err.message); setEngineLoading(false); }
+      }
     };
     initReader();
-    return () => { isMounted = false; };
-  }, [book.id]);
+    return () => {
+      isMounted = false;
+      parseController.abort();
+      flushProgress();
+      releaseResourceUrls(resourceUrlsRef.current);
+      resourceUrlsRef.current = [];
+    };
+  }, [book.id, book.encoding, reloadKey]);
 
   useEffect(() => {
     if (renditionRef.current && book.format === 'epub') {
@@ -354,7 +1073,8 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
 
   return (
     <div className="h-full w-full flex flex-col overflow-hidden relative" style={{ backgroundColor: themeConfig.bg }}>
-      
+      <style>{HIGHLIGHT_CSS}</style>
+
       {/* Top Header - Responsive */}
       <div className="absolute top-0 left-0 right-0 h-14 md:h-16 flex items-center justify-between px-4 z-50 pt-safe bg-gradient-to-b from-black/20 to-transparent md:from-transparent">
         <div className="flex items-center gap-2 md:gap-3">
@@ -383,6 +1103,46 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
              </div>
            )}
            
+          {toc.length > 0 && (
+            <button 
+              onClick={() => { setShowToc(!showToc); setShowNotes(false); setShowBookmarks(false); setShowSearch(false); }} 
+              className={`p-2 rounded-full transition-all ${showToc ? 'bg-indigo-600 text-white' : 'bg-black/20 md:bg-black/5 text-white md:text-inherit hover:bg-black/10'}`}
+              title="Contents"
+            >
+              <List size={20} />
+            </button>
+          )}
+
+          {!engineLoading && !error && !protection && (
+            <button 
+              onClick={() => { setShowNotes(!showNotes); setShowToc(false); setShowBookmarks(false); setShowSearch(false); }} 
+              className={`p-2 rounded-full transition-all ${showNotes ? 'bg-indigo-600 text-white' : 'bg-black/20 md:bg-black/5 text-white md:text-inherit hover:bg-black/10'}`}
+              title="Highlights & Notes"
+            >
+              <Highlighter size={20} />
+            </button>
+          )}
+
+          {!engineLoading && !error && !protection && (
+            <button 
+              onClick={() => { setShowBookmarks(!showBookmarks); setShowToc(false); setShowNotes(false); setShowSearch(false); }} 
+              className={`p-2 rounded-full transition-all ${showBookmarks ? 'bg-indigo-600 text-white' : 'bg-black/20 md:bg-black/5 text-white md:text-inherit hover:bg-black/10'}`}
+              title="Bookmarks"
+            >
+              <Bookmark size={20} />
+            </button>
+          )}
+
+          {!engineLoading && !error && !protection && (
+            <button 
+              onClick={() => { setShowSearch(!showSearch); setShowToc(false); setShowNotes(false); setShowBookmarks(false); }} 
+              className={`p-2 rounded-full transition-all ${showSearch ? 'bg-indigo-600 text-white' : 'bg-black/20 md:bg-black/5 text-white md:text-inherit hover:bg-black/10'}`}
+              title="Search"
+            >
+              <Search size={20} />
+            </button>
+          )}
+
           <button 
             onClick={onToggleAI} 
             className="p-2 rounded-full transition-all bg-black/20 md:bg-black/5 text-white md:text-inherit hover:bg-black/10 active:scale-95"
@@ -409,12 +1169,59 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
         {engineLoading && (
           <div className="absolute inset-0 flex flex-col items-center justify-center z-40 bg-inherit">
             <Loader2 size={32} className="animate-spin text-indigo-600 mb-2" />
-            <p className="text-[10px] font-bold opacity-40 uppercase tracking-widest">Loading content...</p>
+            <p className="text-[10px] font-bold opacity-40 uppercase tracking-widest">
+              Loading content...{loadProgress !== null && ` ${Math.round(loadProgress * 100)}%`}
+            </p>
           </div>
         )}
 
         {/* Navigation Layers (视觉上隐藏，保留点击功能) */}
-        {!engineLoading && !error && (
+        {!engineLoading && (protection || error) && (
+          <div className="absolute inset-0 flex items-center justify-center z-40 p-6">
+            <div className="max-w-sm w-full text-center bg-white/90 backdrop-blur-xl rounded-3xl shadow-2xl border border-gray-100 p-8">
+              <div className={`w-14 h-14 mx-auto mb-4 rounded-2xl flex items-center justify-center ${protection ? 'bg-amber-50 text-amber-600' : 'bg-red-50 text-red-500'}`}>
+                {protection ? <Lock size={26} /> : <AlertTriangle size={26} />}
+              </div>
+              <h3 className="text-lg font-black text-gray-900 mb-2">{protection ? PROTECTION_MESSAGES[protection].title : 'This book could not be opened'}</h3>
+              <p className="text-sm text-gray-500 leading-relaxed">{protection ? PROTECTION_MESSAGES[protection].detail : error}</p>
+              {protection === 'password' && (
+                <button onClick={() => setReloadKey(k => k + 1)} className="mt-6 px-5 py-2.5 bg-indigo-600 text-white text-sm font-bold rounded-xl shadow-lg shadow-indigo-100 hover:bg-indigo-700">
+                  Enter Password
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {passwordPrompt && (
+          <div className="absolute inset-0 flex items-center justify-center z-40 p-6">
+            <form
+              onSubmit={(e) => { e.preventDefault(); passwordPrompt.submit(passwordInput); }}
+              className="max-w-sm w-full bg-white/90 backdrop-blur-xl rounded-3xl shadow-2xl border border-gray-100 p-8"
+            >
+              <div className="w-14 h-14 mx-auto mb-4 rounded-2xl flex items-center justify-center bg-amber-50 text-amber-600">
+                <Lock size={26} />
+              </div>
+              <h3 className="text-lg font-black text-gray-900 mb-2 text-center">{PROTECTION_MESSAGES.password.title}</h3>
+              <p className="text-sm text-gray-500 leading-relaxed text-center mb-5">{PROTECTION_MESSAGES.password.detail}</p>
+              <input
+                type="password"
+                autoFocus
+                value={passwordInput}
+                onChange={(e) => setPasswordInput(e.target.value)}
+                className={`w-full px-4 py-3 rounded-xl border bg-gray-50 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 ${passwordPrompt.incorrect ? 'border-red-300' : 'border-gray-200'}`}
+                placeholder="Password"
+              />
+              {passwordPrompt.incorrect && <p className="text-xs text-red-500 font-bold mt-2">Incorrect password, try again.</p>}
+              <div className="flex gap-2 mt-5">
+                <button type="button" onClick={passwordPrompt.cancel} className="flex-1 py-3 rounded-xl text-sm font-bold text-gray-500 bg-gray-100 hover:bg-gray-200">Cancel</button>
+                <button type="submit" className="flex-1 py-3 rounded-xl text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700">Open</button>
+              </div>
+            </form>
+          </div>
+        )}
+
+        {!engineLoading && !error && !protection && !passwordPrompt && (
           <>
             <div onClick={prevPage} className="absolute left-0 top-0 bottom-0 w-[20%] z-30 cursor-pointer active:bg-black/5 group/left flex items-center justify-center">
               <ChevronLeft className="opacity-0 md:group-hover/left:opacity-30 transition-opacity" size={40} style={{ color: themeConfig.text }} />
@@ -431,8 +1238,20 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
           )}
 
           {book.format === 'pdf' && (
-             <div className="w-full h-full overflow-y-auto no-scrollbar flex justify-center bg-gray-200/50">
-                <canvas ref={pdfCanvasRef} className="shadow-lg md:shadow-2xl self-start md:my-8" />
+             <div ref={pdfContainerRef} className="w-full h-full overflow-y-auto no-scrollbar flex justify-center bg-gray-200/50">
+                <div className="relative self-start md:my-8" onClick={handlePdfClick}>
+                  <canvas ref={pdfCanvasRef} className="block shadow-lg md:shadow-2xl" />
+                  {pdfViewport && annotations.flatMap(annotation => annotation.anchor.type === 'pdf' && annotation.anchor.page === pageNum
+                    ? annotation.anchor.quads.map((quad, i) => (
+                        <div
+                          key={`${annotation.id}-${i}`}
+                          className="absolute pointer-events-none mix-blend-multiply"
+                          style={{ ...quadToBox(quad, pdfViewport), backgroundColor: HIGHLIGHT_COLORS[annotation.color], opacity: 0.4 }}
+                        />
+                      ))
+                    : [])}
+                  <div ref={pdfTextLayerRef} className="pdf-text-layer" />
+                </div>
              </div>
           )}
 
@@ -440,9 +1259,10 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
             <div className="w-full h-full px-4 md:px-20 py-4 md:py-16 overflow-hidden">
                 <div ref={textContainerRef} className="w-full h-full overflow-hidden">
                   <div 
+                     ref={textColumnsRef}
                      style={{
                        columnWidth: `${columnWidth > 0 ? columnWidth : 'auto'}px`,
-                       columnGap: '40px',
+                       columnGap: `${COLUMN_GAP}px`,
                        columnFill: 'auto',
                        height: '100%',
                        fontSize: `${settings.fontSize}px`, 
@@ -451,6 +1271,7 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
                        color: themeConfig.text
                      }}
                      className="prose max-w-none"
+                     onClick={handleContentClick}
                   >
                      {parsedElements}
                   </div>
@@ -460,6 +1281,57 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
         </div>
       </div>
 
+      {showToc && <TocPanel entries={toc} activeIndex={activeTocIndex} onSelect={handleTocSelect} onClose={() => setShowToc(false)} />}
+
+      {showNotes && (
+        <NotesPanel
+          annotations={[...annotations].sort(compareAnnotations)}
+          onSelect={goToAnnotation}
+          onDelete={annotation => removeAnnotation(annotation.id)}
+          onClose={() => setShowNotes(false)}
+        />
+      )}
+
+      {showBookmarks && (
+        <BookmarksPanel
+          bookmarks={[...bookmarks].sort((a, b) => a.percentage - b.percentage || a.createdAt - b.createdAt)}
+          currentChapter={toc[activeTocIndex]?.title}
+          canAdd={!!location}
+          onAdd={addBookmark}
+          onSelect={goToBookmark}
+          onDelete={bookmark => removeBookmark(bookmark.id)}
+          onClose={() => setShowBookmarks(false)}
+        />
+      )}
+
+      {showSearch && (
+        <SearchPanel
+          query={search.query}
+          options={search.options}
+          results={search.results}
+          searching={search.searching}
+          truncated={search.truncated}
+          activeIndex={search.activeIndex}
+          onSearch={runSearch}
+          onSelect={selectSearchResult}
+          onClose={() => setShowSearch(false)}
+        />
+      )}
+
+      {annotationMenu && (
+        <AnnotationMenu
+          key={annotationMenu.annotationId ?? 'selection'}
+          x={annotationMenu.x}
+          y={annotationMenu.y}
+          color={editingAnnotation?.color}
+          note={editingAnnotation?.note}
+          onColor={color => editingAnnotation ? updateAnnotation(editingAnnotation.id, { color }) : createAnnotation(color)}
+          onSaveNote={note => editingAnnotation && updateAnnotation(editingAnnotation.id, { note: note.trim() || undefined })}
+          onDelete={editingAnnotation ? () => { removeAnnotation(editingAnnotation.id); setAnnotationMenu(null); } : undefined}
+          onClose={() => { setAnnotationMenu(null); clearSelection(); }}
+        />
+      )}
+
       {/* Settings Panel */}
       {showSettings && (
         <>
@@ -506,6 +1378,22 @@ const ReaderView: React.FC<ReaderViewProps> = ({ book, onBack, onToggleAI, isSid
                     <button onClick={() => setSettings(s => ({...s, fontFamily: 'serif'}))} className={`py-3 rounded-lg text-xs font-bold transition-all ${settings.fontFamily === 'serif' ? 'bg-white shadow text-indigo-600' : 'text-gray-400'}`}>Serif</button>
                     <button onClick={() => setSettings(s => ({...s, fontFamily: 'sans'}))} className={`py-3 rounded-lg text-xs font-bold transition-all ${settings.fontFamily === 'sans' ? 'bg-white shadow text-indigo-600' : 'text-gray-400'}`}>Sans-Serif</button>
                   </div>
+
+                  {canReencode && (
+                    <div>
+                      <label className="text-[10px] font-bold text-gray-400 block mb-3 uppercase">Reopen With Encoding</label>
+                      <select
+                        value={book.encoding || ''}
+                        onChange={(e) => onBookUpdate({ ...book, encoding: e.target.value || undefined })}
+                        className="w-full px-3 py-2.5 rounded-xl border border-gray-200 bg-gray-50 text-xs font-bold text-gray-700 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                      >
+                        <option value="">Auto Detect</option>
+                        {ENCODING_OPTIONS.map(opt => (
+                          <option key={opt.value} value={opt.value}>{opt.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
                 </>
               )}
             </div>
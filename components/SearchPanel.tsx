@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Search, Loader2 } from 'lucide-react';
+import { SearchOptions, SearchResult } from '../utils/textSearch';
+
+interface SearchPanelProps {
+  query: string;
+  options: SearchOptions;
+  results: SearchResult[];
+  searching: boolean;
+  // More matches exist than are listed.
+  truncated: boolean;
+  activeIndex: number;
+  onSearch: (query: string, options: SearchOptions) => void;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+}
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ query, options, results, searching, truncated, activeIndex, onSearch, onSelect, onClose }) => {
+  const [draft, setDraft] = useState(query);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const activeRef = useRef<HTMLLIElement>(null);
+
+  useEffect(() => {
+    if (activeRef.current) activeRef.current.scrollIntoView({ block: 'center' });
+    else inputRef.current?.focus();
+  }, []);
+
+  // Options apply to the query being typed right away.
+  const toggle = (key: keyof SearchOptions) => onSearch(draft, { ...options, [key]: !options[key] });
+
+  return (
+    <>
+      <div className="md:hidden fixed inset-0 bg-black/40 z-[55] animate-in fade-in" onClick={onClose} />
+
+      <div className="fixed md:absolute bottom-0 md:bottom-auto md:top-16 left-0 md:left-6 right-0 md:right-auto w-full md:w-96 max-h-[70vh] md:max-h-[calc(100%-6rem)] flex flex-col bg-white md:bg-white/95 backdrop-blur-2xl shadow-2xl rounded-t-3xl md:rounded-2xl z-[60] border-t md:border border-gray-100 animate-in slide-in-from-bottom md:slide-in-from-top-4 duration-300">
+        <div className="flex items-center justify-between px-6 pt-6 pb-4">
+          <h4 className="flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.2em] text-indigo-600">
+            <Search size={14} /> Search
+          </h4>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700 rounded-lg hover:bg-gray-100">
+            <X size={16} />
+          </button>
+        </div>
+
+        <form onSubmit={(e) => { e.preventDefault(); onSearch(draft, options); }} className="px-6 pb-3">
+          <div className="flex items-center gap-2 px-3 py-2 rounded-xl border border-gray-200 bg-gray-50 focus-within:ring-2 focus-within:ring-indigo-500">
+            <input
+              ref={inputRef}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder="Search this book..."
+              className="flex-1 min-w-0 bg-transparent text-sm text-gray-700 focus:outline-none"
+            />
+            {searching && <Loader2 size={14} className="animate-spin text-indigo-500 shrink-0" />}
+          </div>
+          <div className="flex items-center gap-2 mt-2">
+            <button
+              type="button"
+              onClick={() => toggle('matchCase')}
+              className={`px-2.5 py-1 rounded-lg text-[11px] font-bold transition-colors ${options.matchCase ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+            >
+              Match case
+            </button>
+            <button
+              type="button"
+              onClick={() => toggle('wholeWord')}
+              className={`px-2.5 py-1 rounded-lg text-[11px] font-bold transition-colors ${options.wholeWord ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-500 hover:bg-gray-200'}`}
+            >
+              Whole word
+            </button>
+            {query && (
+              <span className="ml-auto text-[10px] font-bold text-gray-400">
+                {results.length}{truncated ? '+' : ''} {results.length === 1 ? 'match' : 'matches'}
+              </span>
+            )}
+          </div>
+        </form>
+
+        {query && !searching && results.length === 0 ? (
+          <p className="px-6 pb-6 text-sm text-gray-400">No matches for "{query}".</p>
+        ) : (
+          <ul className="flex-1 overflow-y-auto px-3 pb-4 space-y-1">
+            {results.map((result, i) => (
+              <li key={i} ref={i === activeIndex ? activeRef : undefined}>
+                <button
+                  onClick={() => onSelect(i)}
+                  className={`w-full text-left px-3 py-2 rounded-lg transition-colors ${
+                    i === activeIndex ? 'bg-indigo-100' : 'hover:bg-indigo-50'
+                  }`}
+                >
+                  {result.chapter && <span className="block text-[10px] font-bold text-gray-400 truncate">{result.chapter}</span>}
+                  <span className="block text-sm text-gray-600 line-clamp-3">
+                    {result.excerpt.before}
+                    <mark className="bg-orange-200 text-gray-900 rounded px-0.5">{result.excerpt.match}</mark>
+                    {result.excerpt.after}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default SearchPanel;
@@ -1,17 +1,29 @@
 
-import React, { useRef } from 'react';
-import { BookOpen, Library, RefreshCcw, Plus, Settings } from 'lucide-react';
+import React, { useRef, useEffect } from 'react';
+import { BookOpen, Library, RefreshCcw, Plus, Settings, FolderOpen } from 'lucide-react';
 
 interface SidebarProps {
   activeTab: 'library' | 'reader' | 'converter';
   setActiveTab: (tab: 'library' | 'reader' | 'converter') => void;
-  onImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onImport: (files: File[], source: 'files' | 'folder') => void;
   onOpenSettings: () => void;
   isOpen: boolean;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onImport, onOpenSettings, isOpen }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // webkitdirectory is not part of React's input typings
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const handleInputChange = (source: 'files' | 'folder') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files) onImport(Array.from(files), source);
+    e.target.value = '';
+  };
 
   const navItems = [
     { id: 'library', label: 'Library', icon: Library },
@@ -43,6 +55,14 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onImport, on
             <span className="font-semibold">Add Book</span>
           </button>
 
+          <button
+            onClick={() => folderInputRef.current?.click()}
+            className="w-full -mt-4 mb-6 text-gray-500 hover:text-indigo-600 hover:bg-gray-200 rounded-xl py-2 px-4 flex items-center justify-center gap-2 transition-colors text-sm font-medium whitespace-nowrap"
+          >
+            <FolderOpen size={16} />
+            <span>Import Folder</span>
+          </button>
+
           <nav className="space-y-1 flex-1">
             {navItems.map((item) => (
               <button
@@ -102,8 +122,15 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, setActiveTab, onImport, on
         ref={fileInputRef} 
         className="hidden" 
         multiple 
-        accept=".epub,.pdf,.mobi,.fb2,.txt,.rtf,.azw3"
-        onChange={onImport}
+        accept=".epub,.pdf,.mobi,.fb2,.txt,.rtf,.azw3,.zip"
+        onChange={handleInputChange('files')}
+      />
+      <input 
+        type="file" 
+        ref={folderInputRef} 
+        className="hidden" 
+        multiple 
+        onChange={handleInputChange('folder')}
       />
     </>
   );
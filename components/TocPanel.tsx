@@ -0,0 +1,55 @@
+import React, { useEffect, useRef } from 'react';
+import { X, List } from 'lucide-react';
+import { TocEntry } from '../types';
+
+interface TocPanelProps {
+  entries: TocEntry[];
+  // Entry of the chapter being read, or -1.
+  activeIndex: number;
+  onSelect: (entry: TocEntry) => void;
+  onClose: () => void;
+}
+
+const TocPanel: React.FC<TocPanelProps> = ({ entries, activeIndex, onSelect, onClose }) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  // Long contents open at the current chapter.
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'center' });
+  }, []);
+
+  return (
+    <>
+      <div className="md:hidden fixed inset-0 bg-black/40 z-[55] animate-in fade-in" onClick={onClose} />
+
+      <div className="fixed md:absolute bottom-0 md:bottom-auto md:top-16 left-0 md:left-6 right-0 md:right-auto w-full md:w-80 max-h-[70vh] md:max-h-[calc(100%-6rem)] flex flex-col bg-white md:bg-white/95 backdrop-blur-2xl shadow-2xl rounded-t-3xl md:rounded-2xl z-[60] border-t md:border border-gray-100 animate-in slide-in-from-bottom md:slide-in-from-top-4 duration-300">
+        <div className="flex items-center justify-between px-6 pt-6 pb-4">
+          <h4 className="flex items-center gap-2 text-[10px] font-black uppercase tracking-[0.2em] text-indigo-600">
+            <List size={14} /> Contents
+          </h4>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-700 rounded-lg hover:bg-gray-100">
+            <X size={16} />
+          </button>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto px-3 pb-4">
+          {entries.map((entry, i) => (
+            <li key={i}>
+              <button
+                ref={i === activeIndex ? activeRef : undefined}
+                onClick={() => onSelect(entry)}
+                className={`w-full text-left py-2 pr-3 rounded-lg text-sm truncate hover:bg-indigo-50 hover:text-indigo-700 ${i === activeIndex ? 'bg-indigo-50 text-indigo-700 font-bold' : 'text-gray-700'}`}
+                style={{ paddingLeft: `${12 + entry.level * 16}px` }}
+                title={entry.title}
+              >
+                {entry.title}
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </>
+  );
+};
+
+export default TocPanel;
@@ -0,0 +1,258 @@
+import { Annotation, Book, Bookmark, BookContent, BookFormat, ReadingProgress } from '../types';
+import {
+  getAllBooksFromDB, getBookContentFromDB, saveBookToDB, clearLibraryInDB,
+  getReadingProgressFromDB, saveReadingProgressToDB, getAnnotationsFromDB, saveAnnotationToDB,
+  getBookmarksFromDB, saveBookmarkToDB
+} from './storage';
+
+const SETTINGS_KEY = 'clawreader_ai_settings';
+const MANIFEST_FILE = 'manifest.json';
+const BACKUP_VERSION = 1;
+
+const SUPPORTED_FORMATS: BookFormat[] = ['epub', 'pdf', 'mobi', 'fb2', 'txt', 'rtf', 'azw3'];
+
+/**
+ * Archive layout:
+ *   manifest.json        - BackupManifest
+ *   books/<id>.<format>  - original book files
+ * New sections (reading positions, notes, ...) are added to the manifest as
+ * optional fields so older archives keep restoring.
+ */
+interface BackupBookEntry {
+  book: Book;
+  file: string;
+  // Text imported before binary storage was kept as a decoded string.
+  contentType: 'binary' | 'text';
+  progress?: ReadingProgress;
+  annotations?: Annotation[];
+  bookmarks?: Bookmark[];
+}
+
+interface BackupManifest {
+  app: 'ClawReader';
+  version: number;
+  exportedAt: number;
+  settings: Record<string, unknown> | null;
+  books: BackupBookEntry[];
+}
+
+export interface BackupOptions {
+  includeApiKey: boolean;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreReport {
+  restored: number;
+  settingsRestored: boolean;
+  skipped: { name: string; reason: string }[];
+}
+
+const getJSZip = () => {
+  const JSZip = (window as any).JSZip;
+  if (!JSZip) throw new Error("Zip engine is not loaded yet. Please try again in a moment.");
+  return JSZip;
+};
+
+const readSettings = (includeApiKey: boolean): Record<string, unknown> | null => {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  if (!saved) return null;
+  try {
+    const parsed = JSON.parse(saved);
+    if (!includeApiKey) delete parsed.apiKey;
+    return parsed;
+  } catch (e) {
+    console.error("Error parsing AI settings for backup", e);
+    return null;
+  }
+};
+
+/**
+ * Packs every book file, its metadata and the AI preferences into one zip.
+ * Book files are read one at a time so only the archive itself is held in
+ * memory.
+ */
+export const exportLibrary = async (options: BackupOptions): Promise<Blob> => {
+  const JSZip = getJSZip();
+  const zip = new JSZip();
+  const books = await getAllBooksFromDB();
+  const entries: BackupBookEntry[] = [];
+
+  for (const book of books) {
+    const content = await getBookContentFromDB(book.id);
+    if (content === null) {
+      console.warn(`[Backup] No file stored for ${book.id}, skipping`);
+      continue;
+    }
+    const file = `books/${book.id}.${book.format}`;
+    zip.file(file, content);
+    const progress = await getReadingProgressFromDB(book.id);
+    const annotations = await getAnnotationsFromDB(book.id);
+    const bookmarks = await getBookmarksFromDB(book.id);
+    entries.push({
+      book,
+      file,
+      contentType: typeof content === 'string' ? 'text' : 'binary',
+      progress: progress ?? undefined,
+      annotations: annotations.length > 0 ? annotations : undefined,
+      bookmarks: bookmarks.length > 0 ? bookmarks : undefined
+    });
+  }
+
+  const manifest: BackupManifest = {
+    app: 'ClawReader',
+    version: BACKUP_VERSION,
+    exportedAt: Date.now(),
+    settings: readSettings(options.includeApiKey),
+    books: entries
+  };
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
+
+const restoreSettings = (settings: Record<string, unknown>) => {
+  let current: Record<string, unknown> = {};
+  try {
+    current = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+  } catch (e) {
+    console.error("Error parsing AI settings", e);
+  }
+  // Archives exported without the key must not wipe the one configured here.
+  const merged = { ...current, ...settings };
+  if (!settings.apiKey && current.apiKey) merged.apiKey = current.apiKey;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(merged));
+  window.dispatchEvent(new Event('storage'));
+};
+
+const isValidBook = (book: any): book is Book =>
+  !!book && typeof book.id === 'string' && typeof book.title === 'string' && SUPPORTED_FORMATS.includes(book.format);
+
+const isValidProgress = (progress: any, bookId: string): progress is ReadingProgress =>
+  !!progress && progress.bookId === bookId && typeof progress.percentage === 'number'
+  && ['epub', 'pdf', 'text'].includes(progress.locator?.type);
+
+const isValidAnnotation = (annotation: any, bookId: string): annotation is Annotation =>
+  !!annotation && typeof annotation.id === 'string' && annotation.bookId === bookId
+  && typeof annotation.text === 'string' && ['epub', 'pdf', 'text'].includes(annotation.anchor?.type);
+
+const isValidBookmark = (bookmark: any, bookId: string): bookmark is Bookmark =>
+  !!bookmark && typeof bookmark.id === 'string' && bookmark.bookId === bookId
+  && typeof bookmark.percentage === 'number' && ['epub', 'pdf', 'text'].includes(bookmark.locator?.type);
+
+/**
+ * Writes a backup entry's reading position, annotations and bookmarks into
+ * the library, keeping whatever is already there when it is newer. Returns
+ * how many records were written.
+ */
+const restoreBookRecords = async (entry: BackupBookEntry): Promise<number> => {
+  const bookId = entry.book.id;
+  let written = 0;
+
+  if (isValidProgress(entry.progress, bookId)) {
+    const current = await getReadingProgressFromDB(bookId);
+    if (!current || (current.updatedAt || 0) < (entry.progress.updatedAt || 0)) {
+      await saveReadingProgressToDB(entry.progress);
+      written++;
+    }
+  }
+
+  const annotations = new Map((await getAnnotationsFromDB(bookId)).map(a => [a.id, a]));
+  for (const annotation of Array.isArray(entry.annotations) ? entry.annotations : []) {
+    if (!isValidAnnotation(annotation, bookId)) continue;
+    const current = annotations.get(annotation.id);
+    if (current && (current.updatedAt || 0) >= (annotation.updatedAt || 0)) continue;
+    await saveAnnotationToDB(annotation);
+    written++;
+  }
+
+  const bookmarkIds = new Set((await getBookmarksFromDB(bookId)).map(b => b.id));
+  for (const bookmark of Array.isArray(entry.bookmarks) ? entry.bookmarks : []) {
+    if (!isValidBookmark(bookmark, bookId) || bookmarkIds.has(bookmark.id)) continue;
+    await saveBookmarkToDB(bookmark);
+    written++;
+  }
+  return written;
+};
+
+/**
+ * Rebuilds the library from an archive produced by `exportLibrary`.
+ * In `merge` mode books already in the library are kept and reported as
+ * skipped; `replace` clears the library first.
+ */
+export const importLibrary = async (file: Blob, mode: RestoreMode): Promise<RestoreReport> => {
+  const JSZip = getJSZip();
+  const report: RestoreReport = { restored: 0, settingsRestored: false, skipped: [] };
+
+  let zip: any;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch (e) {
+    throw new Error("This file is not a valid ClawReader backup archive.");
+  }
+
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) throw new Error("Backup manifest is missing.");
+
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(await manifestFile.async('string'));
+  } catch (e) {
+    throw new Error("Backup manifest is corrupted.");
+  }
+  if (manifest.app !== 'ClawReader' || !Array.isArray(manifest.books)) {
+    throw new Error("This file is not a valid ClawReader backup archive.");
+  }
+  if (manifest.version > BACKUP_VERSION) {
+    throw new Error("This backup was created by a newer version of ClawReader.");
+  }
+
+  if (mode === 'replace') await clearLibraryInDB();
+  const existingIds = new Set((await getAllBooksFromDB()).map(b => b.id));
+
+  for (const entry of manifest.books) {
+    const name = entry?.book?.title || entry?.file || 'Unknown entry';
+    if (!isValidBook(entry?.book)) {
+      report.skipped.push({ name, reason: 'Invalid book metadata' });
+      continue;
+    }
+    if (existingIds.has(entry.book.id)) {
+      // The book itself is kept; its notes, bookmarks and position still merge.
+      let reason = 'Already in library';
+      try {
+        const merged = await restoreBookRecords(entry);
+        if (merged > 0) reason += ` (merged ${merged} ${merged === 1 ? 'note, bookmark or position' : 'notes, bookmarks and positions'})`;
+      } catch (e: any) {
+        console.error(`[Backup] Merging records failed for ${entry.book.id}`, e);
+        reason += '; its notes and bookmarks could not be merged';
+      }
+      report.skipped.push({ name, reason });
+      continue;
+    }
+    const bookFile = zip.file(entry.file);
+    if (!bookFile) {
+      report.skipped.push({ name, reason: 'Book file missing from archive' });
+      continue;
+    }
+
+    try {
+      const content: BookContent = entry.contentType === 'text'
+        ? await bookFile.async('string')
+        : await bookFile.async('arraybuffer');
+      await saveBookToDB(entry.book, content);
+      await restoreBookRecords(entry);
+      existingIds.add(entry.book.id);
+      report.restored++;
+    } catch (e: any) {
+      console.error(`[Backup] Restore failed for ${entry.book.id}`, e);
+      report.skipped.push({ name, reason: e?.message || 'Write failed' });
+    }
+  }
+
+  if (manifest.settings) {
+    restoreSettings(manifest.settings);
+    report.settingsRestored = true;
+  }
+
+  return report;
+};
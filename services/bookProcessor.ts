@@ -0,0 +1,341 @@
+import { Book, BookContent } from '../types';
+import { parseMobi, MobiBook } from '../utils/mobiParser';
+import { parseKf8, Kf8Book } from '../utils/kf8Parser';
+import { parseRtf, RtfDocument } from '../utils/rtfParser';
+import { extractBookSections, joinSections, ExtractOptions, TextSection, EXTRACTOR_VERSION } from '../utils/textExtractor';
+import { PROTECTION_MESSAGES } from '../utils/drm';
+import { BookWorkerRequest, BookWorkerResponse, WORKER_EXTRACT_FORMATS } from '../utils/bookWorkerProtocol';
+import { BookExtraction, getExtractionFromDB, saveExtractionToDB } from './storage';
+
+interface ParseRequestOptions {
+  resources?: boolean;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+// Name of the error jobs fail with when the worker itself breaks; such jobs
+// are retried on the main thread.
+const WORKER_ERROR = 'WorkerError';
+
+// `null` once the worker turned out to be unavailable.
+let worker: Worker | null | undefined;
+let nextJobId = 1;
+const listeners = new Map<number, (message: BookWorkerResponse) => void>();
+// Object URLs created inside the worker, which only the worker can revoke.
+const workerUrls = new Set<string>();
+
+const failAllJobs = (message: string) => {
+  for (const [id, listener] of listeners) listener({ id, type: 'error', name: WORKER_ERROR, message });
+};
+
+/**
+ * Starts the shared book worker on first use. It is never terminated, since
+ * object URLs it created stay valid only while it runs.
+ */
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  try {
+    const instance = new Worker(new URL('../utils/bookWorker.ts', import.meta.url), { type: 'module' });
+    instance.onmessage = (event: MessageEvent<BookWorkerResponse>) => listeners.get(event.data.id)?.(event.data);
+    instance.onerror = (event) => {
+      console.error("[Worker] Book worker failed, falling back to the main thread", event.message);
+      instance.terminate();
+      worker = null;
+      failAllJobs(event.message || 'Book worker failed');
+    };
+    worker = instance;
+  } catch (e) {
+    console.warn("[Worker] Web Workers are unavailable, parsing on the main thread", e);
+    worker = null;
+  }
+  return worker;
+};
+
+const send = (target: Worker, request: BookWorkerRequest, transfer: Transferable[] = []) =>
+  target.postMessage(request, transfer);
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const toError = ({ name, message }: { name: string; message: string }) =>
+  Object.assign(new Error(message), { name });
+
+type ParseRequest = Extract<BookWorkerRequest, { type: 'parseMobi' | 'parseKf8' | 'parseRtf' }>;
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+
+/**
+ * Runs a parse job in the worker and resolves with what `unwrap` takes from
+ * the reply. A job cancelled while parsing still finishes in the worker; its
+ * result is handed to `discard` then.
+ */
+const parseInWorker = <T>(
+  target: Worker,
+  request: DistributiveOmit<ParseRequest, 'id'>,
+  transfer: Transferable[],
+  options: ParseRequestOptions,
+  unwrap: (message: BookWorkerResponse) => T | undefined,
+  discard: (result: T) => void = () => {}
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const id = nextJobId++;
+    let settled = false;
+
+    const onAbort = () => {
+      settled = true;
+      send(target, { id, type: 'cancel' });
+      reject(abortError());
+    };
+
+    listeners.set(id, message => {
+      if (message.type === 'progress') {
+        if (!settled) options.onProgress?.(message.fraction);
+        return;
+      }
+      listeners.delete(id);
+      options.signal?.removeEventListener('abort', onAbort);
+      const result = unwrap(message);
+      if (result !== undefined) {
+        if (settled) discard(result);
+        else resolve(result);
+      } else if (message.type === 'error' && !settled) {
+        reject(toError(message));
+      }
+      settled = true;
+    });
+
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+    send(target, { ...request, id } as BookWorkerRequest, transfer);
+  });
+
+/**
+ * Runs `inWorker` when the worker is available and `onMainThread` otherwise,
+ * or when the worker breaks during the job.
+ */
+const runParse = async <T>(
+  options: ParseRequestOptions,
+  inWorker: (target: Worker) => Promise<T>,
+  onMainThread: () => Promise<T> | T
+): Promise<T> => {
+  options.signal?.throwIfAborted();
+  const target = getWorker();
+  if (target) {
+    try {
+      return await inWorker(target);
+    } catch (e: any) {
+      if (e?.name !== WORKER_ERROR) throw e;
+    }
+  }
+  return onMainThread();
+};
+
+// Books are copied before they are transferred, so the caller's buffer
+// stays usable.
+const parseBookInWorker = <T extends MobiBook | Kf8Book>(
+  target: Worker,
+  type: 'parseMobi' | 'parseKf8',
+  buffer: ArrayBuffer,
+  options: ParseRequestOptions
+): Promise<T> => {
+  const data = buffer.slice(0);
+  return parseInWorker<T>(
+    target,
+    { type, buffer: data, resources: options.resources !== false },
+    [data],
+    options,
+    message => {
+      if (message.type !== 'mobi' && message.type !== 'kf8') return undefined;
+      message.book.resourceUrls.forEach(url => workerUrls.add(url));
+      return message.book as T;
+    },
+    book => releaseResourceUrls(book.resourceUrls)
+  );
+};
+
+/**
+ * Parses a MOBI6 book in the book worker, or on the main thread where
+ * workers are unavailable. Release the result with `releaseParsedBook`.
+ */
+export const parseMobiBook = (buffer: ArrayBuffer, options: ParseRequestOptions = {}): Promise<MobiBook> =>
+  runParse(options, target => parseBookInWorker<MobiBook>(target, 'parseMobi', buffer, options), () => parseMobi(buffer, options));
+
+/**
+ * Parses a KF8 (AZW3) book in the book worker; see `parseMobiBook`.
+ */
+export const parseKf8Book = (buffer: ArrayBuffer, options: ParseRequestOptions = {}): Promise<Kf8Book> =>
+  runParse(options, target => parseBookInWorker<Kf8Book>(target, 'parseKf8', buffer, options), () => parseKf8(buffer, options));
+
+/**
+ * Parses RTF source text in the book worker.
+ */
+export const parseRtfDocument = (source: string, options: ParseRequestOptions = {}): Promise<RtfDocument> =>
+  runParse(
+    options,
+    target => parseInWorker<RtfDocument>(target, { type: 'parseRtf', source }, [], options, message => message.type === 'rtf' ? message.document : undefined),
+    () => parseRtf(source)
+  );
+
+/**
+ * Revokes object URLs of a parsed book, wherever they were created.
+ */
+export const releaseResourceUrls = (urls: string[]) => {
+  const remote = urls.filter(url => workerUrls.has(url));
+  remote.forEach(url => workerUrls.delete(url));
+  if (remote.length > 0 && worker) send(worker, { type: 'release', urls: remote });
+  urls.filter(url => !remote.includes(url)).forEach(url => URL.revokeObjectURL(url));
+};
+
+export const releaseParsedBook = (book: MobiBook | Kf8Book) => {
+  releaseResourceUrls(book.resourceUrls);
+  book.resourceUrls = [];
+};
+
+/**
+ * Streams a book's chapters like `extractBookSections`, running formats the
+ * worker can handle off the main thread. Breaking out of the loop or
+ * aborting `signal` cancels the worker job.
+ */
+async function* extractSections(
+  book: Book,
+  content: BookContent,
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+): AsyncGenerator<TextSection> {
+  const target = WORKER_EXTRACT_FORMATS.includes(book.format) ? getWorker() : null;
+  if (!target) {
+    yield* extractBookSections(book, content, signal, onProgress);
+    return;
+  }
+  if (book.protection) throw new Error(PROTECTION_MESSAGES[book.protection].title);
+  signal?.throwIfAborted();
+
+  const id = nextJobId++;
+  const queue: BookWorkerResponse[] = [];
+  let wake: (() => void) | null = null;
+  listeners.set(id, message => {
+    queue.push(message);
+    wake?.();
+  });
+  const onAbort = () => wake?.();
+  signal?.addEventListener('abort', onAbort);
+
+  // The cover is a large data URL the worker does not need.
+  const data = typeof content === 'string' ? content : content.slice(0);
+  send(target, { id, type: 'extract', book: { ...book, cover: undefined }, content: data }, typeof data === 'string' ? [] : [data]);
+
+  let finished = false;
+  let yielded = false;
+  try {
+    while (true) {
+      if (signal?.aborted) throw signal.reason ?? abortError();
+      const message = queue.shift();
+      if (!message) {
+        await new Promise<void>(resolve => { wake = resolve; });
+        wake = null;
+        continue;
+      }
+      if (message.type === 'section') {
+        yielded = true;
+        yield message.section;
+      } else if (message.type === 'done') {
+        finished = true;
+        return;
+      } else if (message.type === 'error') {
+        finished = true;
+        if (message.name === WORKER_ERROR && !yielded) break;
+        throw toError(message);
+      }
+    }
+  } finally {
+    listeners.delete(id);
+    signal?.removeEventListener('abort', onAbort);
+    if (!finished) send(target, { id, type: 'cancel' });
+  }
+
+  // The worker broke before producing anything.
+  yield* extractBookSections(book, content, signal, onProgress);
+}
+
+// SHA-256 of the book file, or null where Web Crypto is unavailable
+// (insecure origins), which disables the cache.
+const hashContent = async (content: BookContent): Promise<string | null> => {
+  if (!globalThis.crypto?.subtle) return null;
+  const data = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const loadExtraction = async (book: Book, contentHash: string): Promise<BookExtraction | null> => {
+  try {
+    const record = await getExtractionFromDB(book.id);
+    const valid = record
+      && record.version === EXTRACTOR_VERSION
+      && record.contentHash === contentHash
+      && record.encoding === (book.encoding || '')
+      && record.title === book.title;
+    return valid ? record : null;
+  } catch (e) {
+    console.warn("[Cache] Could not read cached extraction", e);
+    return null;
+  }
+};
+
+/**
+ * Streams a book's chapters, served from the extraction cache when it holds
+ * them and extracted (off the main thread where possible) otherwise.
+ * Whatever was extracted is cached, even when the caller stops early; a
+ * later, longer read replays the cached chapters and extracts only the rest.
+ * `onProgress` reports progress within chapters still being extracted.
+ */
+export async function* streamBookSections(
+  book: Book,
+  content: BookContent,
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+): AsyncGenerator<TextSection> {
+  if (book.protection) throw new Error(PROTECTION_MESSAGES[book.protection].title);
+  signal?.throwIfAborted();
+
+  const contentHash = await hashContent(content).catch(() => null);
+  const cached = contentHash ? await loadExtraction(book, contentHash) : null;
+  const sections = cached ? [...cached.sections] : [];
+  const cachedCount = sections.length;
+  let complete = cached?.complete ?? false;
+
+  try {
+    for (const section of cached?.sections ?? []) {
+      signal?.throwIfAborted();
+      yield section;
+    }
+    if (complete) return;
+
+    // Extraction starts from the beginning; chapters already replayed from
+    // the cache are skipped, and so is progress through them.
+    const resumedAt = cachedCount > 0 ? cachedCount / sections[0].total : 0;
+    const report = onProgress && ((fraction: number) => { if (fraction > resumedAt) onProgress(fraction); });
+    for await (const section of extractSections(book, content, signal, report)) {
+      if (section.index < cachedCount) continue;
+      sections.push(section);
+      yield section;
+    }
+    complete = true;
+  } finally {
+    if (contentHash && (sections.length > cachedCount || (complete && !cached?.complete))) {
+      saveExtractionToDB({
+        id: book.id,
+        version: EXTRACTOR_VERSION,
+        contentHash,
+        encoding: book.encoding || '',
+        title: book.title,
+        complete,
+        sections
+      }).catch(e => console.warn("[Cache] Could not store extraction", e));
+    }
+  }
+}
+
+/**
+ * `extractBookText` on top of `streamBookSections`.
+ */
+export const extractText = async (book: Book, content: BookContent, limit?: number, options: ExtractOptions = {}): Promise<string> => {
+  if (book.protection) throw new Error(PROTECTION_MESSAGES[book.protection].title);
+  return joinSections(streamBookSections(book, content, options.signal, options.onProgress), limit, options.onProgress);
+};
@@ -0,0 +1,299 @@
+import { Book, BookContent, BookFormat } from '../types';
+import { saveBookToDB } from './storage';
+import { detectFormat, getExtension } from '../utils/formatDetector';
+import { extractMetadata } from '../utils/metadataExtractor';
+import { generateCover } from '../utils/coverGenerator';
+import { detectEncoding } from '../utils/encoding';
+import { detectProtection } from '../utils/drm';
+
+export type ImportStatus = 'queued' | 'importing' | 'done' | 'error';
+
+export interface ImportQueueItem {
+  id: string;
+  name: string;
+  size: number;
+  status: ImportStatus;
+  progress: number; // 0..1
+  stage?: string;
+  message?: string;
+  bookId?: string;
+}
+
+type ProgressCallback = (progress: number, stage: string) => void;
+
+const BOOK_EXTENSIONS: BookFormat[] = ['epub', 'pdf', 'mobi', 'fb2', 'txt', 'rtf', 'azw3'];
+const ARCHIVE_EXTENSIONS = ['zip'];
+
+/**
+ * Drops files that are clearly not books (images, stylesheets, .DS_Store...)
+ * from folder imports. Single-file imports are not filtered so mislabelled
+ * books still get a chance at content detection.
+ */
+export const filterBookFiles = (files: File[]): File[] =>
+  files.filter(f => {
+    const extension = getExtension(f.name);
+    return BOOK_EXTENSIONS.includes(extension as BookFormat) || ARCHIVE_EXTENSIONS.includes(extension);
+  });
+
+const readFile = (file: File, onProgress: (fraction: number) => void): Promise<ArrayBuffer> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onprogress = (e) => { if (e.lengthComputable) onProgress(e.loaded / e.total); };
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error || new Error('Could not read file'));
+    reader.readAsArrayBuffer(file);
+  });
+
+export interface ImportResult {
+  books: Book[];
+  // Archive entries that were not imported, with the reason.
+  skipped: { name: string; reason: string }[];
+  // Files whose content did not match their extension, with the format they were read as.
+  reclassified: { name: string; format: BookFormat }[];
+}
+
+/**
+ * Zip tools on Chinese Windows store entry names in GBK without setting the
+ * UTF-8 flag; JSZip only calls this for such entries.
+ */
+const decodeEntryName = (bytes: Uint8Array | number[]): string => {
+  const data = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch (e) {
+    return new TextDecoder('gb18030').decode(data);
+  }
+};
+
+const baseName = (path: string) => path.substring(path.lastIndexOf('/') + 1);
+
+// Finder metadata, hidden files and folders are never books.
+const isIgnoredEntry = (entry: any): boolean =>
+  entry.dir || entry.name.startsWith('__MACOSX/') || baseName(entry.name).startsWith('.');
+
+/**
+ * Extracts metadata for an already-detected book and stores it in the library.
+ */
+const saveImportedBook = async (
+  buffer: ArrayBuffer,
+  fileName: string,
+  format: BookFormat,
+  onProgress: ProgressCallback
+): Promise<Book> => {
+  // Text formats keep their original bytes so they can be re-decoded later
+  // with a different encoding.
+  const content: BookContent = buffer;
+  const encoding = ['txt', 'fb2', 'rtf'].includes(format)
+    ? detectEncoding(new Uint8Array(buffer), format)
+    : undefined;
+
+  onProgress(0.1, 'Reading metadata');
+  const protection = await detectProtection(format, content);
+  const metadata = await extractMetadata(format, content, encoding);
+
+  const book: Book = {
+    id: 'book-' + Date.now() + '-' + Math.random().toString(36).substr(2, 5),
+    title: metadata.title || fileName.replace(/\.[^/.]+$/, ""),
+    author: metadata.author || 'Unknown Author',
+    format,
+    language: metadata.language,
+    publisher: metadata.publisher,
+    description: metadata.description,
+    isbn: metadata.isbn,
+    encoding,
+    protection,
+    addedAt: Date.now(),
+    cover: metadata.cover
+  };
+  if (!book.cover) book.cover = generateCover(book);
+
+  onProgress(0.8, 'Saving');
+  await saveBookToDB(book, content);
+  onProgress(1, 'Saving');
+  return book;
+};
+
+/**
+ * Imports every supported book inside a zip archive through the regular
+ * detection pipeline. A single-entry `name.fb2.zip` / `name.txt.zip` uses the
+ * inner extension of the archive name as its format hint, since such entries
+ * are often stored under a generic or extension-less name.
+ */
+const importArchive = async (buffer: ArrayBuffer, archiveName: string, onProgress: ProgressCallback): Promise<ImportResult> => {
+  const JSZip = (window as any).JSZip;
+  if (!JSZip) throw new Error("Zip engine is not loaded yet. Please try again in a moment.");
+
+  let zip: any;
+  try {
+    zip = await JSZip.loadAsync(buffer, { decodeFileName: decodeEntryName });
+  } catch (e) {
+    throw new Error("The archive is damaged or not a valid zip file.");
+  }
+
+  const entries: any[] = Object.values(zip.files).filter((entry: any) => !isIgnoredEntry(entry));
+  if (entries.length === 0) throw new Error("The archive is empty.");
+
+  const innerName = archiveName.replace(/\.zip$/i, '');
+  const innerHint = entries.length === 1 && getExtension(innerName) ? innerName : undefined;
+
+  const result: ImportResult = { books: [], skipped: [], reclassified: [] };
+
+  // Entries are read one at a time to keep at most one uncompressed book in memory.
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const name = baseName(entry.name);
+    const entryProgress: ProgressCallback = (fraction, stage) =>
+      onProgress(0.6 + 0.4 * ((i + fraction) / entries.length), `${stage} ${name}`);
+
+    try {
+      entryProgress(0, 'Extracting');
+      const data: ArrayBuffer = await entry.async('arraybuffer');
+      const detection = detectFormat(data, innerHint || name);
+      if (detection.archive) throw new Error('Nested archives are not supported');
+      if (!detection.format) throw new Error(detection.reason || 'Unsupported file type');
+      // Extension-less entries are usually archive metadata, not plain text books.
+      if (detection.format === 'txt' && !getExtension(innerHint || name)) throw new Error('Unsupported file type');
+      result.books.push(await saveImportedBook(data, name, detection.format, entryProgress));
+      if (detection.reclassified) result.reclassified.push({ name: entry.name, format: detection.format });
+    } catch (err: any) {
+      result.skipped.push({ name: entry.name, reason: err.message || 'Import failed' });
+    }
+  }
+
+  if (result.books.length === 0) {
+    const reasons = result.skipped.map(s => `${baseName(s.name)}: ${s.reason}`).slice(0, 3).join('; ');
+    throw new Error(`No supported books in archive (${reasons})`);
+  }
+  return result;
+};
+
+/**
+ * Reads a file, detects its real format from its content, extracts metadata
+ * and stores it in the library. Zip archives yield one book per supported
+ * entry. Throws with a user-facing message when nothing can be imported.
+ */
+export const importBookFile = async (file: File, onProgress: ProgressCallback = () => {}): Promise<ImportResult> => {
+  onProgress(0, 'Reading');
+  const buffer = await readFile(file, (fraction) => onProgress(fraction * 0.6, 'Reading'));
+  onProgress(0.6, 'Detecting format');
+  const detection = detectFormat(buffer, file.name);
+  if (detection.archive) {
+    const result = await importArchive(buffer, file.name, onProgress);
+    onProgress(1, 'Done');
+    return result;
+  }
+  if (!detection.format) throw new Error(detection.reason || 'Unsupported file type');
+
+  const format = detection.format;
+  const book = await saveImportedBook(buffer, file.name, format, (fraction, stage) =>
+    onProgress(0.6 + fraction * 0.4, stage));
+  onProgress(1, 'Done');
+  return { books: [book], skipped: [], reclassified: detection.reclassified ? [{ name: file.name, format }] : [] };
+};
+
+/**
+ * Summarises an import for the queue panel, e.g. `Added “Title”`,
+ * `Added “Title”, book.mobi read as EPUB` or `Added 3 books, 2 reclassified, 1 skipped`.
+ */
+const describeResult = ({ books, skipped, reclassified }: ImportResult): string => {
+  const parts = [books.length === 1 ? `Added “${books[0].title}”` : `Added ${books.length} books`];
+  if (reclassified.length === 1) parts.push(`${baseName(reclassified[0].name)} read as ${reclassified[0].format.toUpperCase()}`);
+  else if (reclassified.length > 1) parts.push(`${reclassified.length} reclassified`);
+  if (skipped.length > 0) parts.push(`${skipped.length} skipped`);
+  return parts.join(', ');
+};
+
+/**
+ * Runs imports with a fixed number of files in flight, so dropping a large
+ * folder does not load every file into memory at once.
+ */
+export const createImportQueue = (options: {
+  concurrency: number;
+  onUpdate: (item: ImportQueueItem) => void;
+  onImported: (book: Book) => void;
+}) => {
+  const pending: { item: ImportQueueItem; file: File }[] = [];
+  let active = 0;
+
+  const update = (item: ImportQueueItem, patch: Partial<ImportQueueItem>) => {
+    Object.assign(item, patch);
+    options.onUpdate({ ...item });
+  };
+
+  const run = async (item: ImportQueueItem, file: File) => {
+    update(item, { status: 'importing', stage: 'Reading' });
+    try {
+      const result = await importBookFile(file, (progress, stage) => update(item, { progress, stage }));
+      result.skipped.forEach(s => console.warn(`[Import] Skipped ${s.name} in ${file.name}: ${s.reason}`));
+      result.reclassified.forEach(r => console.log(`[Import] ${r.name} is actually ${r.format.toUpperCase()}, reclassified`));
+      update(item, { status: 'done', progress: 1, stage: undefined, bookId: result.books[0].id, message: describeResult(result) });
+      result.books.forEach(options.onImported);
+    } catch (err: any) {
+      console.error(`Import failed for ${file.name}`, err);
+      update(item, { status: 'error', stage: undefined, message: err.message || 'Import failed' });
+    }
+  };
+
+  const pump = () => {
+    while (active < options.concurrency && pending.length > 0) {
+      const job = pending.shift()!;
+      active++;
+      run(job.item, job.file).finally(() => {
+        active--;
+        pump();
+      });
+    }
+  };
+
+  const enqueue = (files: File[]) => {
+    for (const file of files) {
+      const item: ImportQueueItem = {
+        id: 'import-' + Date.now() + '-' + Math.random().toString(36).substr(2, 5),
+        name: file.webkitRelativePath || file.name,
+        size: file.size,
+        status: 'queued',
+        progress: 0
+      };
+      pending.push({ item, file });
+      options.onUpdate({ ...item });
+    }
+    pump();
+  };
+
+  return { enqueue };
+};
+
+/**
+ * Collects files from a drag-and-drop. Dropped folders are walked
+ * recursively and filtered like a folder import; loose files are kept as-is.
+ */
+export const getDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+
+  if (entries.length === 0) return Array.from(dataTransfer.files);
+
+  const files: File[] = [];
+
+  const readEntries = (reader: FileSystemDirectoryReader) =>
+    new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+  const walk = async (entry: FileSystemEntry, inFolder: boolean): Promise<void> => {
+    if (entry.isFile) {
+      const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+      if (!inFolder || filterBookFiles([file]).length > 0) files.push(file);
+    } else if (entry.isDirectory) {
+      const reader = (entry as FileSystemDirectoryEntry).createReader();
+      // readEntries returns results in batches until it yields an empty list.
+      let batch = await readEntries(reader);
+      while (batch.length > 0) {
+        for (const child of batch) await walk(child, true);
+        batch = await readEntries(reader);
+      }
+    }
+  };
+
+  for (const entry of entries) await walk(entry, false);
+  return files;
+};
@@ -1,9 +1,165 @@
+import { Annotation, Book, Bookmark, BookContent, ReadingProgress } from '../types';
+import { generateCover } from '../utils/coverGenerator';
+import { TextSection } from '../utils/textExtractor';
+
 const DB_NAME = 'ClawReaderDB';
 const STORE_NAME = 'books';
-const DB_VERSION = 4; // Version 4: Force recreate object store to fix any schema/key issues
+const CONTENT_STORE_NAME = 'book_contents';
+const EXTRACTION_STORE_NAME = 'book_extractions';
+const PROGRESS_STORE_NAME = 'reading_progress';
+const ANNOTATION_STORE_NAME = 'annotations';
+const BOOKMARK_STORE_NAME = 'bookmarks';
+
+interface BookContentRecord {
+  id: string;
+  content: BookContent;
+}
+
+/**
+ * Chapters extracted from a book, cached so AI sessions and conversions do
+ * not parse the file again. The record is only valid for the extractor
+ * version, file hash, encoding and title it was built from. When extraction
+ * stopped early, `complete` is false and `sections` hold the start of the book.
+ */
+export interface BookExtraction {
+  id: string;
+  version: number;
+  contentHash: string;
+  encoding: string;
+  title: string;
+  complete: boolean;
+  sections: TextSection[];
+}
+
+/**
+ * A single schema upgrade step. `upgrade` runs inside the versionchange
+ * transaction, so it can create/alter stores and indexes and rewrite records
+ * in place. Steps must never drop data that later versions still need.
+ */
+interface Migration {
+  version: number;
+  description: string;
+  upgrade: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+// Books imported before generated covers got a random placeholder image.
+const withGeneratedCover = (book: Book): Book =>
+  !book.cover || book.cover.startsWith('https://picsum.photos/') ? { ...book, cover: generateCover(book) } : book;
+
+// Ordered list of schema steps. Append new steps at the end; never edit or
+// reorder a step that has already shipped.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create books store',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    }
+  },
+  // Versions 2-4 used to drop and recreate the books store. The schema they
+  // produced is identical to version 1, so they are kept as no-ops to let
+  // older databases step forward without losing their library.
+  { version: 2, description: 'Legacy store reset (no-op)', upgrade: () => {} },
+  { version: 3, description: 'Legacy store reset (no-op)', upgrade: () => {} },
+  { version: 4, description: 'Legacy store reset (no-op)', upgrade: () => {} },
+  {
+    version: 5,
+    description: 'Move book files into a separate content store',
+    upgrade: (db, transaction) => {
+      if (!db.objectStoreNames.contains(CONTENT_STORE_NAME)) {
+        db.createObjectStore(CONTENT_STORE_NAME, { keyPath: 'id' });
+      }
+      const books = transaction.objectStore(STORE_NAME);
+      const contents = transaction.objectStore(CONTENT_STORE_NAME);
+      const cursorRequest = books.openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const { content, ...meta } = cursor.value;
+        if (content !== undefined) {
+          contents.put({ id: meta.id, content });
+          // Version 6 runs its cursor in the same transaction and may read
+          // this record before the update below lands, so the cover is
+          // replaced here as well and both writes agree.
+          cursor.update(withGeneratedCover(meta as Book));
+        }
+        cursor.continue();
+      };
+    }
+  },
+  {
+    version: 6,
+    description: 'Replace random placeholder covers with generated covers',
+    upgrade: (db, transaction) => {
+      const contents = transaction.objectStore(CONTENT_STORE_NAME);
+      const cursorRequest = transaction.objectStore(STORE_NAME).openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        // A record read before version 5 moved its file still carries it;
+        // the file goes to the content store, never back into books.
+        const { content, ...meta } = cursor.value;
+        const book = withGeneratedCover(meta as Book);
+        if (content !== undefined) contents.put({ id: book.id, content });
+        if (content !== undefined || book !== meta) cursor.update(book);
+        cursor.continue();
+      };
+    }
+  },
+  {
+    version: 7,
+    description: 'Create extracted text cache store',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(EXTRACTION_STORE_NAME)) {
+        db.createObjectStore(EXTRACTION_STORE_NAME, { keyPath: 'id' });
+      }
+    }
+  },
+  {
+    version: 8,
+    description: 'Create reading progress store',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(PROGRESS_STORE_NAME)) {
+        db.createObjectStore(PROGRESS_STORE_NAME, { keyPath: 'bookId' });
+      }
+    }
+  },
+  {
+    version: 9,
+    description: 'Create annotations store',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(ANNOTATION_STORE_NAME)) {
+        const store = db.createObjectStore(ANNOTATION_STORE_NAME, { keyPath: 'id' });
+        store.createIndex('bookId', 'bookId');
+      }
+    }
+  },
+  {
+    version: 10,
+    description: 'Create bookmarks store',
+    upgrade: (db) => {
+      if (!db.objectStoreNames.contains(BOOKMARK_STORE_NAME)) {
+        const store = db.createObjectStore(BOOKMARK_STORE_NAME, { keyPath: 'id' });
+        store.createIndex('bookId', 'bookId');
+      }
+    }
+  }
+];
+
+const DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
 
 let dbInstance: IDBDatabase | null = null;
 
+const runMigrations = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number) => {
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= oldVersion) continue;
+    console.log(`[DB] Migrating to version ${migration.version}: ${migration.description}`);
+    migration.upgrade(db, transaction);
+  }
+};
+
 export const initDB = (): Promise<IDBDatabase> => {
   if (dbInstance) return Promise.resolve(dbInstance);
 
@@ -11,16 +167,23 @@ export const initDB = (): Promise<IDBDatabase> => {
     const request = indexedDB.open(DB_NAME, DB_VERSION);
     
     request.onupgradeneeded = (event) => {
-      console.log(`[DB] Upgrading database to version ${DB_VERSION} - Resetting Store`);
+      console.log(`[DB] Upgrading database from version ${event.oldVersion} to ${DB_VERSION}`);
       const db = request.result;
-      
-      // Critical fix: Delete old store to remove any corrupted data or schema mismatches
-      if (db.objectStoreNames.contains(STORE_NAME)) {
-        db.deleteObjectStore(STORE_NAME);
+      const transaction = request.transaction;
+      if (!transaction) return;
+
+      try {
+        runMigrations(db, transaction, event.oldVersion);
+      } catch (error) {
+        // Aborting the versionchange transaction leaves the previous schema
+        // and all of its records untouched.
+        console.error("[DB] Migration failed, aborting upgrade", error);
+        transaction.abort();
       }
-      
-      // Create fresh store with correct keyPath
-      db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+
+    request.onblocked = () => {
+      console.warn("[DB] Upgrade blocked: close other ClawReader tabs to continue");
     };
 
     request.onsuccess = () => {
@@ -46,13 +209,15 @@ export const initDB = (): Promise<IDBDatabase> => {
   });
 };
 
-export const saveBookToDB = async (book: any) => {
+export const saveBookToDB = async (book: Book, content: BookContent) => {
   try {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      const request = store.put(book);
+      const transaction = db.transaction([STORE_NAME, CONTENT_STORE_NAME, EXTRACTION_STORE_NAME], 'readwrite');
+      transaction.objectStore(STORE_NAME).put(book);
+      transaction.objectStore(CONTENT_STORE_NAME).put({ id: book.id, content } as BookContentRecord);
+      // A new file makes any cached extraction of the old one stale.
+      transaction.objectStore(EXTRACTION_STORE_NAME).delete(book.id);
       
       transaction.oncomplete = () => resolve(true);
       transaction.onerror = () => reject(transaction.error);
@@ -63,7 +228,21 @@ export const saveBookToDB = async (book: any) => {
   }
 };
 
-export const getAllBooksFromDB = async (): Promise<any[]> => {
+/**
+ * Updates library metadata only; the stored file is left untouched.
+ */
+export const updateBookInDB = async (book: Book): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readwrite');
+    transaction.objectStore(STORE_NAME).put(book);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getAllBooksFromDB = async (): Promise<Book[]> => {
   try {
     const db = await initDB();
     return new Promise((resolve, reject) => {
@@ -80,16 +259,165 @@ export const getAllBooksFromDB = async (): Promise<any[]> => {
   }
 };
 
+export const getBookContentFromDB = async (id: string): Promise<BookContent | null> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CONTENT_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(CONTENT_STORE_NAME).get(id);
+
+    request.onsuccess = () => {
+      const record = request.result as BookContentRecord | undefined;
+      resolve(record ? record.content : null);
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Loads the file for a book, failing loudly when the content record is gone
+ * so callers can surface a proper error instead of rendering nothing.
+ */
+export const loadBookContent = async (id: string): Promise<BookContent> => {
+  const content = await getBookContentFromDB(id);
+  if (content === null) throw new Error("Book file is missing from local storage.");
+  return content;
+};
+
+export const getExtractionFromDB = async (id: string): Promise<BookExtraction | null> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(EXTRACTION_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(EXTRACTION_STORE_NAME).get(id);
+
+    request.onsuccess = () => resolve((request.result as BookExtraction | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveExtractionToDB = async (extraction: BookExtraction): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(EXTRACTION_STORE_NAME, 'readwrite');
+    transaction.objectStore(EXTRACTION_STORE_NAME).put(extraction);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getReadingProgressFromDB = async (bookId: string): Promise<ReadingProgress | null> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(PROGRESS_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(PROGRESS_STORE_NAME).get(bookId);
+
+    request.onsuccess = () => resolve((request.result as ReadingProgress | undefined) ?? null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveReadingProgressToDB = async (progress: ReadingProgress): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(PROGRESS_STORE_NAME, 'readwrite');
+    transaction.objectStore(PROGRESS_STORE_NAME).put(progress);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getAnnotationsFromDB = async (bookId: string): Promise<Annotation[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ANNOTATION_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(ANNOTATION_STORE_NAME).index('bookId').getAll(bookId);
+
+    request.onsuccess = () => resolve(request.result as Annotation[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveAnnotationToDB = async (annotation: Annotation): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ANNOTATION_STORE_NAME, 'readwrite');
+    transaction.objectStore(ANNOTATION_STORE_NAME).put(annotation);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteAnnotationFromDB = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ANNOTATION_STORE_NAME, 'readwrite');
+    transaction.objectStore(ANNOTATION_STORE_NAME).delete(id);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getBookmarksFromDB = async (bookId: string): Promise<Bookmark[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(BOOKMARK_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(BOOKMARK_STORE_NAME).index('bookId').getAll(bookId);
+
+    request.onsuccess = () => resolve(request.result as Bookmark[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveBookmarkToDB = async (bookmark: Bookmark): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(BOOKMARK_STORE_NAME, 'readwrite');
+    transaction.objectStore(BOOKMARK_STORE_NAME).put(bookmark);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const deleteBookmarkFromDB = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(BOOKMARK_STORE_NAME, 'readwrite');
+    transaction.objectStore(BOOKMARK_STORE_NAME).delete(id);
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// Deletes every record of a book from a store indexed by 'bookId'.
+const deleteByBook = (store: IDBObjectStore, bookId: string) => {
+  const cursorRequest = store.index('bookId').openKeyCursor(IDBKeyRange.only(bookId));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+};
+
 export const deleteBookFromDB = async (id: string): Promise<void> => {
   try {
     const db = await initDB();
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
+      const transaction = db.transaction([STORE_NAME, CONTENT_STORE_NAME, EXTRACTION_STORE_NAME, PROGRESS_STORE_NAME, ANNOTATION_STORE_NAME, BOOKMARK_STORE_NAME], 'readwrite');
       
       console.log(`[DB] Deleting book: ${id}`);
       
-      store.delete(id);
+      transaction.objectStore(STORE_NAME).delete(id);
+      transaction.objectStore(CONTENT_STORE_NAME).delete(id);
+      transaction.objectStore(EXTRACTION_STORE_NAME).delete(id);
+      transaction.objectStore(PROGRESS_STORE_NAME).delete(id);
+      deleteByBook(transaction.objectStore(ANNOTATION_STORE_NAME), id);
+      deleteByBook(transaction.objectStore(BOOKMARK_STORE_NAME), id);
 
       transaction.oncomplete = () => {
         console.log(`[DB] Successfully deleted book: ${id}`);
@@ -109,4 +437,24 @@ export const deleteBookFromDB = async (id: string): Promise<void> => {
     console.error("Delete book error:", error);
     throw error;
   }
-};
\ No newline at end of file
+};
+/**
+ * Removes every book and its file. Used when a backup restore replaces the
+ * whole library.
+ */
+export const clearLibraryInDB = async (): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE_NAME, CONTENT_STORE_NAME, EXTRACTION_STORE_NAME, PROGRESS_STORE_NAME, ANNOTATION_STORE_NAME, BOOKMARK_STORE_NAME], 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.objectStore(CONTENT_STORE_NAME).clear();
+    transaction.objectStore(EXTRACTION_STORE_NAME).clear();
+    transaction.objectStore(PROGRESS_STORE_NAME).clear();
+    transaction.objectStore(ANNOTATION_STORE_NAME).clear();
+    transaction.objectStore(BOOKMARK_STORE_NAME).clear();
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(new Error("Transaction aborted"));
+  });
+};
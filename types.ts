@@ -1,17 +1,110 @@
 
 export type BookFormat = 'epub' | 'pdf' | 'mobi' | 'fb2' | 'txt' | 'rtf' | 'azw3';
 
+// Raw book file. Text formats imported before binary storage may be strings.
+export type BookContent = string | ArrayBuffer;
+
+// Why a book's content cannot be read: publisher DRM, or a PDF user password.
+export type BookProtection = 'drm' | 'password';
+
+// Library metadata. The file itself lives in a separate store and is loaded
+// on demand through `loadBookContent`.
 export interface Book {
   id: string;
   title: string;
   author: string;
   format: BookFormat;
-  content: string | ArrayBuffer; // Base64 or Blob URL
   cover?: string;
+  language?: string;
+  publisher?: string;
+  description?: string;
+  isbn?: string;
+  // Text encoding of TXT/FB2/RTF files, detected at import or chosen by the user.
+  encoding?: string;
+  // Set when the file is encrypted; detected at import and again when opened.
+  protection?: BookProtection;
   addedAt: number;
   lastRead?: number;
 }
 
+export interface TocEntry {
+  title: string;
+  // Nesting depth; 0 for top-level entries.
+  level: number;
+  // Where the entry points: an in-document anchor ('#id') for books rendered
+  // as HTML, the navigation href for EPUB, or a 1-based page for PDF.
+  href?: string;
+  page?: number;
+}
+
+// Where a chapter starts in the original book. `offset` counts characters in
+// the book's extracted plain text (chapters joined by blank lines).
+export type ChapterLocator =
+  | { type: 'epub'; href: string; cfi?: string }
+  | { type: 'pdf'; page: number }
+  | { type: 'text'; offset: number };
+
+// Format-independent chapter produced by the text extractor.
+export interface Chapter {
+  title: string;
+  // Nesting depth; 0 for top-level chapters.
+  level: number;
+  text: string;
+  locator: ChapterLocator;
+}
+
+// A position in the reader: an EPUB CFI, a PDF page, or for books rendered
+// as HTML (TXT, FB2, RTF, MOBI, AZW3) a character offset into the rendered
+// text, which stays put when the font size changes the pagination.
+export type ReadingLocator =
+  | { type: 'epub'; cfi: string }
+  | { type: 'pdf'; page: number }
+  | { type: 'text'; offset: number };
+
+// Where the reader last left a book.
+export interface ReadingProgress {
+  bookId: string;
+  locator: ReadingLocator;
+  // 0-1 through the book.
+  percentage: number;
+  updatedAt: number;
+}
+
+export type HighlightColor = 'yellow' | 'green' | 'blue' | 'pink' | 'purple';
+
+// What a highlight covers: an EPUB CFI range, selection boxes on a PDF page
+// as [x1, y1, x2, y2] in PDF user space, or a character range in the
+// rendered text (see ReadingLocator).
+export type AnnotationAnchor =
+  | { type: 'epub'; cfiRange: string }
+  | { type: 'pdf'; page: number; quads: number[][] }
+  | { type: 'text'; start: number; end: number };
+
+// A highlight with an optional note.
+export interface Annotation {
+  id: string;
+  bookId: string;
+  anchor: AnnotationAnchor;
+  // The highlighted text, shown in the notes panel.
+  text: string;
+  color: HighlightColor;
+  note?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface Bookmark {
+  id: string;
+  bookId: string;
+  locator: ReadingLocator;
+  label?: string;
+  // Chapter and position at the time it was added, for the bookmark list.
+  chapter?: string;
+  // 0 to 1.
+  percentage: number;
+  createdAt: number;
+}
+
 export interface AIResponse {
   summary: string;
   keyInsights: string[];
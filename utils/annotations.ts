@@ -0,0 +1,66 @@
+import { Annotation, HighlightColor } from '../types';
+
+// Swatch colours; highlights draw them translucent over the text.
+export const HIGHLIGHT_COLORS: Record<HighlightColor, string> = {
+  yellow: '#facc15',
+  green: '#4ade80',
+  blue: '#60a5fa',
+  pink: '#f472b6',
+  purple: '#a78bfa'
+};
+
+export const HIGHLIGHT_COLOR_NAMES = Object.keys(HIGHLIGHT_COLORS) as HighlightColor[];
+
+export const createAnnotationId = () => 'note-' + Date.now() + '-' + Math.random().toString(36).slice(2, 7);
+
+const pdfTop = (quads: number[][]) => Math.max(...quads.map(quad => quad[3]));
+
+/**
+ * Orders annotations of one book as they appear in it. Anchors that cannot
+ * be compared fall back to creation order.
+ */
+export const compareAnnotations = (a: Annotation, b: Annotation): number => {
+  const x = a.anchor;
+  const y = b.anchor;
+  if (x.type === 'text' && y.type === 'text') return x.start - y.start || x.end - y.end;
+  // PDF y coordinates grow upwards.
+  if (x.type === 'pdf' && y.type === 'pdf') return x.page - y.page || pdfTop(y.quads) - pdfTop(x.quads);
+  if (x.type === 'epub' && y.type === 'epub') {
+    try {
+      return new (window as any).ePub.CFI().compare(x.cfiRange, y.cfiRange);
+    } catch (e) {
+      // Unparsable CFI; keep creation order.
+    }
+  }
+  return a.createdAt - b.createdAt;
+};
+
+/**
+ * Converts selection rectangles over a rendered PDF page into page boxes
+ * that do not depend on the zoom. `origin` is the page's on-screen box and
+ * `viewport` the pdf.js viewport it was rendered with.
+ */
+export const rectsToQuads = (rects: DOMRect[], origin: DOMRect, viewport: any): number[][] =>
+  rects
+    .filter(rect => rect.width > 0 && rect.height > 0)
+    .map(rect => {
+      const [x1, y1] = viewport.convertToPdfPoint(rect.left - origin.left, rect.top - origin.top);
+      const [x2, y2] = viewport.convertToPdfPoint(rect.right - origin.left, rect.bottom - origin.top);
+      return [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)];
+    });
+
+/**
+ * CSS box of a page box on the page rendered with `viewport`.
+ */
+export const quadToBox = (quad: number[], viewport: any) => {
+  const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(quad);
+  return {
+    left: Math.min(x1, x2),
+    top: Math.min(y1, y2),
+    width: Math.abs(x2 - x1),
+    height: Math.abs(y2 - y1)
+  };
+};
+
+export const quadContains = (quad: number[], x: number, y: number) =>
+  x >= quad[0] && x <= quad[2] && y >= quad[1] && y <= quad[3];
@@ -0,0 +1,67 @@
+/**
+ * Web Worker entry that parses MOBI/KF8/RTF books and extracts text off the
+ * main thread. Started by services/bookProcessor.ts; see
+ * bookWorkerProtocol.ts for the messages.
+ */
+
+import { parseMobi } from './mobiParser';
+import { parseKf8 } from './kf8Parser';
+import { parseRtf } from './rtfParser';
+import { extractBookSections } from './textExtractor';
+import { BookWorkerRequest, BookWorkerResponse } from './bookWorkerProtocol';
+
+const scope = self as unknown as Worker;
+const jobs = new Map<number, AbortController>();
+
+const post = (message: BookWorkerResponse) => scope.postMessage(message);
+
+// Parsers report every text record; forward whole percents only.
+const reportProgress = (id: number) => {
+  let last = -1;
+  return (fraction: number) => {
+    const percent = Math.floor(fraction * 100);
+    if (percent === last) return;
+    last = percent;
+    post({ id, type: 'progress', fraction });
+  };
+};
+
+const run = async (request: Exclude<BookWorkerRequest, { type: 'cancel' } | { type: 'release' }>) => {
+  const { id } = request;
+  const controller = new AbortController();
+  jobs.set(id, controller);
+  try {
+    switch (request.type) {
+      case 'parseMobi':
+        post({ id, type: 'mobi', book: await parseMobi(request.buffer, { resources: request.resources, onProgress: reportProgress(id) }) });
+        break;
+      case 'parseKf8':
+        post({ id, type: 'kf8', book: await parseKf8(request.buffer, { resources: request.resources, onProgress: reportProgress(id) }) });
+        break;
+      case 'parseRtf':
+        post({ id, type: 'rtf', document: parseRtf(request.source) });
+        break;
+      case 'extract':
+        for await (const section of extractBookSections(request.book, request.content, controller.signal)) {
+          post({ id, type: 'section', section });
+        }
+        post({ id, type: 'done' });
+        break;
+    }
+  } catch (err: any) {
+    post({ id, type: 'error', name: err?.name || 'Error', message: err?.message || String(err) });
+  } finally {
+    jobs.delete(id);
+  }
+};
+
+scope.onmessage = (event: MessageEvent<BookWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'release') {
+    request.urls.forEach(url => URL.revokeObjectURL(url));
+  } else if (request.type === 'cancel') {
+    jobs.get(request.id)?.abort();
+  } else {
+    run(request);
+  }
+};
@@ -0,0 +1,33 @@
+import { Book, BookContent, BookFormat } from '../types';
+import { MobiBook } from './mobiParser';
+import { Kf8Book } from './kf8Parser';
+import { RtfDocument } from './rtfParser';
+import { TextSection } from './textExtractor';
+
+/**
+ * Messages between the page and the book worker. Every job carries an `id`
+ * that its replies echo; book files are transferred, not copied.
+ */
+export type BookWorkerRequest =
+  | { id: number; type: 'parseMobi'; buffer: ArrayBuffer; resources: boolean }
+  | { id: number; type: 'parseKf8'; buffer: ArrayBuffer; resources: boolean }
+  | { id: number; type: 'parseRtf'; source: string }
+  | { id: number; type: 'extract'; book: Book; content: BookContent }
+  | { id: number; type: 'cancel' }
+  // Object URLs die with the context that created them, so the worker
+  // revokes the ones it handed out.
+  | { type: 'release'; urls: string[] };
+
+export type BookWorkerResponse =
+  | { id: number; type: 'progress'; fraction: number }
+  | { id: number; type: 'section'; section: TextSection }
+  | { id: number; type: 'mobi'; book: MobiBook }
+  | { id: number; type: 'kf8'; book: Kf8Book }
+  | { id: number; type: 'rtf'; document: RtfDocument }
+  | { id: number; type: 'done' }
+  | { id: number; type: 'error'; name: string; message: string };
+
+// Formats whose text the worker can extract. EPUB and FB2 need the DOM or
+// ePub.js. PDF stays on the page: pdf.js parses in a worker of its own, and
+// the page layout left here runs in slices between UI updates.
+export const WORKER_EXTRACT_FORMATS: BookFormat[] = ['txt', 'rtf', 'mobi', 'azw3'];
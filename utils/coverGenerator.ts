@@ -0,0 +1,175 @@
+import { BookFormat } from '../types';
+
+interface CoverSource {
+  id: string;
+  title: string;
+  author: string;
+  format: BookFormat;
+}
+
+const WIDTH = 400;
+const HEIGHT = 600;
+const PADDING = 36;
+
+const TITLE_FONT = 'Merriweather, "Songti SC", "SimSun", serif';
+const BODY_FONT = 'Inter, "PingFang SC", "Microsoft YaHei", sans-serif';
+
+// [background, accent, text]
+const PALETTES: [string, string, string][] = [
+  ['#1e3a5f', '#f2a541', '#f8f4e3'],
+  ['#2d4739', '#e3c567', '#f4f1e8'],
+  ['#5b2333', '#f7b267', '#fdf0e6'],
+  ['#312f5d', '#9fa8ff', '#f1f0ff'],
+  ['#3d3027', '#d9a066', '#f6efe6'],
+  ['#0f4c5c', '#ffc857', '#eef8f9'],
+  ['#f4ecd8', '#b5523b', '#3b2a20'],
+  ['#e8eef2', '#3066be', '#1b2a41'],
+  ['#f6e7e2', '#7a306c', '#2e1a2b'],
+  ['#1b1b1e', '#d64933', '#f3f3f3']
+];
+
+// FNV-1a; stable across sessions so a book always gets the same cover.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const CJK_RANGES = '\\u3040-\\u30ff\\u3400-\\u9fff\\uac00-\\ud7af\\uf900-\\ufaff';
+const CJK_CHAR = new RegExp(`[${CJK_RANGES}]`);
+const WRAP_TOKENS = new RegExp(`[${CJK_RANGES}]|[^\\s${CJK_RANGES}]+|\\s+`, 'g');
+
+const isCjk = (char: string) => CJK_CHAR.test(char);
+
+/**
+ * Wraps text to the given width. CJK text breaks between any two characters,
+ * everything else breaks on spaces. Overflowing text ends in an ellipsis.
+ */
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const tokens = text.match(WRAP_TOKENS) || [];
+  const lines: string[] = [];
+  let line = '';
+
+  for (const token of tokens) {
+    const candidate = line + token;
+    if (ctx.measureText(candidate.trim()).width <= maxWidth || !line.trim()) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line.trim());
+    line = /^\s+$/.test(token) ? '' : token;
+    if (lines.length === maxLines) break;
+  }
+  if (lines.length < maxLines && line.trim()) lines.push(line.trim());
+
+  const consumed = lines.join('').replace(/\s+/g, '').length;
+  if (consumed < text.replace(/\s+/g, '').length && lines.length > 0) {
+    let last = lines[lines.length - 1];
+    while (last.length > 1 && ctx.measureText(last + '…').width > maxWidth) last = last.slice(0, -1);
+    lines[lines.length - 1] = (isCjk(last.slice(-1)) ? last : last.trimEnd()) + '…';
+  }
+  return lines;
+};
+
+const drawPattern = (ctx: CanvasRenderingContext2D, variant: number, accent: string, hash: number) => {
+  ctx.save();
+  ctx.fillStyle = accent;
+  ctx.strokeStyle = accent;
+  switch (variant) {
+    case 0: {
+      // Horizontal band behind the title
+      ctx.fillRect(0, HEIGHT * 0.62, WIDTH, 10);
+      ctx.fillRect(PADDING, PADDING, 56, 6);
+      break;
+    }
+    case 1: {
+      // Large offset circle
+      ctx.globalAlpha = 0.85;
+      const r = 120 + (hash % 60);
+      ctx.beginPath();
+      ctx.arc(WIDTH - 40, HEIGHT - 60, r, 0, Math.PI * 2);
+      ctx.fill();
+      break;
+    }
+    default: {
+      // Diagonal stripes in the top corner
+      ctx.globalAlpha = 0.5;
+      ctx.lineWidth = 6;
+      for (let i = 0; i < 6; i++) {
+        ctx.beginPath();
+        ctx.moveTo(WIDTH - 160 + i * 28, 0);
+        ctx.lineTo(WIDTH, 160 - i * 28);
+        ctx.stroke();
+      }
+      break;
+    }
+  }
+  ctx.restore();
+};
+
+/**
+ * Renders a typographic cover from title, author and format. The colour
+ * scheme and layout are seeded by the book id, so regenerating a cover
+ * always yields the same image.
+ */
+export const generateCover = (book: CoverSource): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return '';
+
+  const hash = hashString(book.id);
+  const [background, accent, text] = PALETTES[hash % PALETTES.length];
+
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  drawPattern(ctx, (hash >>> 8) % 3, accent, hash);
+
+  // Title
+  const maxWidth = WIDTH - PADDING * 2;
+  let titleSize = 40;
+  let titleLines: string[] = [];
+  while (titleSize >= 24) {
+    ctx.font = `bold ${titleSize}px ${TITLE_FONT}`;
+    titleLines = wrapText(ctx, book.title || 'Untitled', maxWidth, 5);
+    if (titleLines.length <= 4) break;
+    titleSize -= 4;
+  }
+  ctx.fillStyle = text;
+  ctx.textBaseline = 'top';
+  const titleLineHeight = titleSize * 1.25;
+  let y = PADDING + 48;
+  for (const line of titleLines) {
+    ctx.fillText(line, PADDING, y);
+    y += titleLineHeight;
+  }
+
+  // Author
+  if (book.author) {
+    ctx.font = `600 20px ${BODY_FONT}`;
+    ctx.globalAlpha = 0.85;
+    const authorLines = wrapText(ctx, book.author, maxWidth, 2);
+    y = Math.max(y + 24, HEIGHT * 0.62 + 32);
+    for (const line of authorLines) {
+      ctx.fillText(line, PADDING, y);
+      y += 26;
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  // Format label
+  ctx.font = `900 14px ${BODY_FONT}`;
+  const label = book.format.toUpperCase();
+  const labelWidth = ctx.measureText(label).width + 20;
+  ctx.fillStyle = accent;
+  ctx.fillRect(PADDING, HEIGHT - PADDING - 28, labelWidth, 28);
+  ctx.fillStyle = background;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, PADDING + 10, HEIGHT - PADDING - 14);
+
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
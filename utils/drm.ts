@@ -0,0 +1,96 @@
+import { BookContent, BookFormat, BookProtection } from '../types';
+
+export const PROTECTION_MESSAGES: Record<BookProtection, { title: string; detail: string }> = {
+  drm: {
+    title: 'This book is DRM-protected',
+    detail: 'The file is encrypted by its store (Kindle, Adobe or Apple) and can only be opened in that store\'s own reading app. Import a DRM-free copy to read it here.'
+  },
+  password: {
+    title: 'This PDF is password-protected',
+    detail: 'Enter the document password to open it. The password is not stored.'
+  }
+};
+
+// Obfuscation algorithms for embedded fonts; these do not prevent reading.
+const FONT_OBFUSCATION = ['http://www.idpf.org/2008/embedding', 'http://ns.adobe.com/pdf/enc#RC'];
+const CONTENT_DOCUMENT = /\.(x?html?|xml)$/i;
+
+const toArrayBuffer = (content: BookContent): ArrayBuffer =>
+  typeof content === 'string' ? new TextEncoder().encode(content).buffer : content;
+
+/**
+ * MOBI/AZW3: the PalmDOC header of record 0 holds the encryption type
+ * (0 none, 1 old Mobipocket, 2 Mobipocket/Kindle).
+ */
+const isEncryptedMobi = (buffer: ArrayBuffer): boolean => {
+  const data = new DataView(buffer);
+  if (buffer.byteLength < 86) return false;
+  const record0 = data.getUint32(78, false);
+  if (record0 + 14 > buffer.byteLength) return false;
+  return data.getUint16(record0 + 12, false) !== 0;
+};
+
+/**
+ * EPUB: `META-INF/encryption.xml` lists encrypted resources. Only font
+ * obfuscation is harmless; real encryption of any content document means
+ * the book cannot be read.
+ */
+const isEncryptedEpub = async (buffer: ArrayBuffer): Promise<boolean> => {
+  const JSZip = (window as any).JSZip;
+  if (!JSZip) return false;
+  const zip = await JSZip.loadAsync(buffer);
+  const file = zip.file('META-INF/encryption.xml');
+  if (!file) return false;
+
+  const doc = new DOMParser().parseFromString(await file.async('string'), 'application/xml');
+  return Array.from(doc.getElementsByTagNameNS('*', 'EncryptedData')).some(data => {
+    const algorithm = data.getElementsByTagNameNS('*', 'EncryptionMethod')[0]?.getAttribute('Algorithm') || '';
+    const uri = data.getElementsByTagNameNS('*', 'CipherReference')[0]?.getAttribute('URI') || '';
+    return !FONT_OBFUSCATION.includes(algorithm) && CONTENT_DOCUMENT.test(uri);
+  });
+};
+
+/**
+ * PDF: pdf.js asks for a password only when a user password is set;
+ * owner-password (permissions only) files open normally.
+ */
+const needsPdfPassword = async (buffer: ArrayBuffer): Promise<boolean> => {
+  const pdfjsLib = (window as any).pdfjsLib;
+  if (!pdfjsLib) return false;
+  pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdn.jsdelivr.net/npm/pdfjs-dist@3.4.120/build/pdf.worker.min.js';
+  const loadingTask = pdfjsLib.getDocument({ data: buffer.slice(0) });
+  return new Promise<boolean>((resolve) => {
+    loadingTask.onPassword = () => {
+      resolve(true);
+      loadingTask.destroy();
+    };
+    loadingTask.promise.then(
+      (doc: any) => { resolve(false); doc.destroy(); },
+      () => resolve(false)
+    );
+  });
+};
+
+/**
+ * Reports whether a book file is encrypted. Detection failures are treated
+ * as unprotected so that a damaged file still reaches the normal error path.
+ */
+export const detectProtection = async (format: BookFormat, content: BookContent): Promise<BookProtection | undefined> => {
+  try {
+    const buffer = toArrayBuffer(content);
+    switch (format) {
+      case 'mobi':
+      case 'azw3':
+        return isEncryptedMobi(buffer) ? 'drm' : undefined;
+      case 'epub':
+        return await isEncryptedEpub(buffer) ? 'drm' : undefined;
+      case 'pdf':
+        return await needsPdfPassword(buffer) ? 'password' : undefined;
+      default:
+        return undefined;
+    }
+  } catch (e) {
+    console.warn("Protection check failed", e);
+    return undefined;
+  }
+};
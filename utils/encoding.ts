@@ -0,0 +1,184 @@
+import { BookContent, BookFormat } from '../types';
+
+/**
+ * Encodings offered in the reader's "reopen with encoding" menu. Values are
+ * WHATWG labels accepted by TextDecoder.
+ */
+export const ENCODING_OPTIONS: { value: string; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'gb18030', label: '简体中文 (GB18030 / GBK)' },
+  { value: 'big5', label: '繁體中文 (Big5)' },
+  { value: 'shift_jis', label: '日本語 (Shift_JIS)' },
+  { value: 'euc-kr', label: '한국어 (EUC-KR)' },
+  { value: 'windows-1251', label: 'Cyrillic (Windows-1251)' },
+  { value: 'windows-1252', label: 'Western (Windows-1252)' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' }
+];
+
+// Windows code pages as used by RTF \ansicpg and MOBI headers.
+const CODE_PAGES: Record<number, string> = {
+  874: 'windows-874',
+  932: 'shift_jis',
+  936: 'gb18030',
+  949: 'euc-kr',
+  950: 'big5',
+  1250: 'windows-1250',
+  1251: 'windows-1251',
+  1252: 'windows-1252',
+  1253: 'windows-1253',
+  1254: 'windows-1254',
+  1255: 'windows-1255',
+  1256: 'windows-1256',
+  1257: 'windows-1257',
+  1258: 'windows-1258',
+  10000: 'macintosh',
+  20866: 'koi8-r',
+  54936: 'gb18030',
+  65001: 'utf-8'
+};
+
+export const encodingFromCodePage = (codePage: number): string | undefined => CODE_PAGES[codePage];
+
+// Most frequent characters (plus CJK punctuation) per language. A correct
+// decoding hits these sets far more often than a decoding with the wrong
+// multibyte table, which produces rare characters.
+const COMMON_SIMPLIFIED = '的一是不了人我在有他这为之大来以个中上们到说国和地也子时道出而要于就下得可你年生自会那后能对着事其里所去行过家十用发天如然作方成者多日都三小军二无同么经法当起与好看学进种将还分此心前面又定见只主没公从知她现开样想己身动长两些问点回本外走因机头手意没话情间最西全实东问被它很老给已什向正新';
+const COMMON_TRADITIONAL = '的一是不了人我在有他這為之大來以個中上們到說國和地也子時道出而要於就下得可你年生自會那後能對著事其裡所去行過家十用發天如然作方成者多日都三小軍二無同麼經法當起與好看學進種將還分此心前面又定見只主沒公從知她現開樣想己身動長兩些問點回本外走因機頭手意話情間最西全實東被它很老給已什向正新';
+const CJK_PUNCTUATION = '，。、：；！？“”‘’《》（）…—「」『』';
+const COMMON_HANGUL = '이다는의에가을고하지한기서로대사도리자어시나아그수해게요일보인정있주들상국만구전부우원것면장제없라적내위과중성동같거마와';
+const COMMON_CYRILLIC = 'оеаинтсрвлкмдпуяыОЕАИНТСРВЛКМДП';
+
+const toSet = (chars: string) => new Set(Array.from(chars));
+const SIMPLIFIED_SET = toSet(COMMON_SIMPLIFIED + CJK_PUNCTUATION);
+const TRADITIONAL_SET = toSet(COMMON_TRADITIONAL + CJK_PUNCTUATION);
+const HANGUL_SET = toSet(COMMON_HANGUL);
+const CYRILLIC_SET = toSet(COMMON_CYRILLIC);
+
+const isKana = (code: number) => code >= 0x3040 && code <= 0x30ff;
+
+const CANDIDATES: { encoding: string; hit: (ch: string) => boolean }[] = [
+  { encoding: 'gb18030', hit: ch => SIMPLIFIED_SET.has(ch) },
+  { encoding: 'big5', hit: ch => TRADITIONAL_SET.has(ch) },
+  { encoding: 'shift_jis', hit: ch => isKana(ch.charCodeAt(0)) || CJK_PUNCTUATION.includes(ch) },
+  { encoding: 'euc-kr', hit: ch => HANGUL_SET.has(ch) },
+  { encoding: 'windows-1251', hit: ch => CYRILLIC_SET.has(ch) }
+];
+
+const SAMPLE_SIZE = 64 * 1024;
+
+const detectBom = (bytes: Uint8Array): string | undefined => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return undefined;
+};
+
+/**
+ * Reads an explicit charset declaration: the XML prolog for FB2 and the
+ * \ansicpg control word for RTF.
+ */
+const detectDeclaration = (bytes: Uint8Array, format?: BookFormat): string | undefined => {
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 1024));
+
+  if (format !== 'rtf') {
+    const xml = head.match(/^\s*<\?xml[^>]*\bencoding\s*=\s*["']([\w.:-]+)["']/i);
+    if (xml) {
+      const label = xml[1].toLowerCase();
+      // Validate the label; TextDecoder throws on unknown encodings.
+      try { return new TextDecoder(label).encoding; } catch (e) { return undefined; }
+    }
+  }
+
+  if (format !== 'fb2') {
+    const rtf = head.match(/^\{\\rtf\d?[^]*?\\ansicpg(\d+)/);
+    if (rtf) return encodingFromCodePage(parseInt(rtf[1], 10));
+  }
+
+  return undefined;
+};
+
+const isValidUtf8 = (bytes: Uint8Array): boolean => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// A sample cut at an arbitrary byte may split a multibyte character. The cut
+// is moved back to the start of the UTF-8 character it falls in; legacy
+// decoders stream the sample so they buffer a trailing partial sequence.
+const takeSample = (bytes: Uint8Array): Uint8Array => {
+  if (bytes.length <= SAMPLE_SIZE) return bytes;
+  let end = SAMPLE_SIZE;
+  while (end > SAMPLE_SIZE - 4 && (bytes[end] & 0xc0) === 0x80) end--;
+  return bytes.subarray(0, end);
+};
+
+/**
+ * Scores each legacy encoding by how many decoded non-ASCII characters fall
+ * into that language's most common characters.
+ */
+const guessLegacyEncoding = (sample: Uint8Array): string => {
+  let best = { encoding: 'gb18030', score: -1 };
+
+  for (const candidate of CANDIDATES) {
+    let text: string;
+    try {
+      text = new TextDecoder(candidate.encoding, { fatal: true }).decode(sample, { stream: true });
+    } catch (e) {
+      // Multibyte tables reject impossible byte sequences outright.
+      continue;
+    }
+
+    let total = 0;
+    let hits = 0;
+    for (const ch of text) {
+      if (ch.charCodeAt(0) < 0x80) continue;
+      total++;
+      if (candidate.hit(ch)) hits++;
+    }
+    const score = total === 0 ? 0 : hits / total;
+    if (score > best.score) best = { encoding: candidate.encoding, score };
+  }
+
+  return best.encoding;
+};
+
+/**
+ * Determines the text encoding of a book file: BOM first, then an explicit
+ * declaration, then UTF-8 validity, and finally a statistical guess among
+ * common legacy encodings.
+ */
+export const detectEncoding = (bytes: Uint8Array, format?: BookFormat): string => {
+  const bom = detectBom(bytes);
+  if (bom) return bom;
+
+  const declared = detectDeclaration(bytes, format);
+  if (declared) return declared;
+
+  const sample = takeSample(bytes);
+  if (isValidUtf8(sample)) return 'utf-8';
+
+  return guessLegacyEncoding(sample);
+};
+
+/**
+ * Decodes a stored book file to text. `encoding` is the encoding saved on the
+ * book (detected at import or chosen by the user); it is detected when absent.
+ * Legacy records whose text was decoded at import are returned unchanged.
+ */
+export const decodeBookContent = (content: BookContent, format?: BookFormat, encoding?: string): string => {
+  if (typeof content === 'string') return content;
+  const bytes = new Uint8Array(content);
+  const label = encoding || detectEncoding(bytes, format);
+  try {
+    // TextDecoder strips a matching BOM by default
+    return new TextDecoder(label).decode(bytes);
+  } catch (e) {
+    console.warn(`Unknown encoding ${label}, falling back to UTF-8`, e);
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+};
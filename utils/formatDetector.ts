@@ -0,0 +1,164 @@
+import { BookFormat } from '../types';
+import { isKf8 } from './kf8Parser';
+
+export interface FormatDetection {
+  format: BookFormat | null;
+  // True when the file content disagrees with its extension.
+  reclassified: boolean;
+  // Set for containers whose entries should be imported individually.
+  archive?: 'zip';
+  // Why the file was rejected when `format` is null.
+  reason?: string;
+}
+
+const SUPPORTED_EXTENSIONS: BookFormat[] = ['epub', 'pdf', 'mobi', 'fb2', 'txt', 'rtf', 'azw3'];
+
+const EPUB_MIMETYPE = 'application/epub+zip';
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(start, Math.min(bytes.length, start + length)));
+
+const startsWith = (bytes: Uint8Array, signature: string, offset = 0): boolean =>
+  ascii(bytes, offset, signature.length) === signature;
+
+export const getExtension = (fileName: string): string => {
+  const dot = fileName.lastIndexOf('.');
+  return dot >= 0 ? fileName.substring(dot + 1).toLowerCase() : '';
+};
+
+const isZip = (bytes: Uint8Array) => startsWith(bytes, 'PK\x03\x04');
+
+const EOCD_SIGNATURE = 'PK\x05\x06';
+const CENTRAL_ENTRY_SIGNATURE = 'PK\x01\x02';
+// End of central directory record plus the longest possible comment.
+const EOCD_SEARCH = 22 + 0xffff;
+
+/**
+ * Entry names listed in a zip's central directory, or an empty list when the
+ * directory cannot be found.
+ */
+const zipEntryNames = (bytes: Uint8Array): string[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - EOCD_SEARCH); i--) {
+    if (startsWith(bytes, EOCD_SIGNATURE, i)) { eocd = i; break; }
+  }
+  if (eocd < 0) return [];
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const names: string[] = [];
+  for (let i = 0; i < count && offset + 46 <= bytes.length && startsWith(bytes, CENTRAL_ENTRY_SIGNATURE, offset); i++) {
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    names.push(ascii(bytes, offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return names;
+};
+
+/**
+ * EPUB requires an uncompressed `mimetype` entry first in the archive, so the
+ * literal media type shows up right after the first local file header.
+ * Some packagers get the order wrong or compress the entry; the head of the
+ * file and then the central directory are checked as fallbacks.
+ */
+const isEpub = (bytes: Uint8Array): boolean => {
+  if (!isZip(bytes)) return false;
+  const nameLength = bytes[26] | (bytes[27] << 8);
+  const extraLength = bytes[28] | (bytes[29] << 8);
+  if (ascii(bytes, 30, nameLength) === 'mimetype' && startsWith(bytes, EPUB_MIMETYPE, 30 + nameLength + extraLength)) {
+    return true;
+  }
+  if (ascii(bytes, 0, 4096).includes(`mimetype${EPUB_MIMETYPE}`)) return true;
+  return zipEntryNames(bytes).some(name => name === 'mimetype' || name === 'META-INF/container.xml');
+};
+
+// The PDF header may be preceded by junk bytes within the first kilobyte.
+const isPdf = (bytes: Uint8Array) => ascii(bytes, 0, 1024).includes('%PDF-');
+
+const getPdbType = (bytes: Uint8Array) => bytes.length >= 78 ? ascii(bytes, 60, 8) : '';
+
+/**
+ * Tells KF8 (AZW3) apart from legacy MOBI6. KF8-only files declare version 8;
+ * joint MOBI6/KF8 files carry a KF8 boundary in EXTH 121 and are read as KF8.
+ */
+const detectMobiFlavour = (buffer: ArrayBuffer): BookFormat => isKf8(buffer) ? 'azw3' : 'mobi';
+
+const isFictionBook = (head: string) => /<FictionBook[\s>]/.test(head);
+
+const isRtf = (bytes: Uint8Array) => startsWith(bytes, '{\\rtf');
+
+const hasUnicodeBom = (bytes: Uint8Array) =>
+  (bytes[0] === 0xff && bytes[1] === 0xfe) ||
+  (bytes[0] === 0xfe && bytes[1] === 0xff) ||
+  (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf);
+
+/**
+ * Plain text has no signature; accept it when the head contains no control
+ * bytes other than whitespace (UTF-16 text is recognised by its BOM).
+ */
+const looksLikeText = (bytes: Uint8Array): boolean => {
+  if (hasUnicodeBom(bytes)) return true;
+  const sample = bytes.subarray(0, 8192);
+  let control = 0;
+  for (const b of sample) {
+    if (b === 0) return false;
+    if (b < 0x20 && b !== 0x09 && b !== 0x0a && b !== 0x0d && b !== 0x0c && b !== 0x1b) control++;
+  }
+  return control <= sample.length * 0.01;
+};
+
+/**
+ * Decodes the start of a text file well enough to look for markup, handling
+ * UTF-16 BOMs. Any ASCII-compatible encoding works for tag detection.
+ */
+const decodeHead = (bytes: Uint8Array): string => {
+  const head = bytes.subarray(0, 4096);
+  if (head[0] === 0xff && head[1] === 0xfe) return new TextDecoder('utf-16le').decode(head);
+  if (head[0] === 0xfe && head[1] === 0xff) return new TextDecoder('utf-16be').decode(head);
+  return new TextDecoder('latin1').decode(head);
+};
+
+/**
+ * Determines the book format from the file signature, using the extension
+ * only to break ties for signature-less plain text.
+ */
+export const detectFormat = (buffer: ArrayBuffer, fileName: string): FormatDetection => {
+  const bytes = new Uint8Array(buffer);
+  const extension = getExtension(fileName);
+  const claimed = SUPPORTED_EXTENSIONS.includes(extension as BookFormat) ? extension as BookFormat : null;
+  const result = (format: BookFormat): FormatDetection => ({ format, reclassified: claimed !== null && claimed !== format });
+
+  if (bytes.length === 0) return { format: null, reclassified: false, reason: 'File is empty' };
+
+  if (isZip(bytes)) {
+    if (isEpub(bytes)) return result('epub');
+    return { format: null, reclassified: false, archive: 'zip' };
+  }
+
+  if (isPdf(bytes)) return result('pdf');
+
+  const pdbType = getPdbType(bytes);
+  if (pdbType === 'BOOKMOBI') return result(detectMobiFlavour(buffer));
+  if (pdbType === 'TEXtREAd') return result('mobi');
+
+  if (isRtf(bytes)) return result('rtf');
+
+  if (looksLikeText(bytes)) {
+    if (isFictionBook(decodeHead(bytes))) return result('fb2');
+    if (claimed === 'txt' || extension === '') return result('txt');
+    return {
+      format: null,
+      reclassified: false,
+      reason: claimed ? `Content does not match the .${extension} format` : `Unsupported file type${extension ? ` (.${extension})` : ''}`
+    };
+  }
+
+  return {
+    format: null,
+    reclassified: false,
+    reason: claimed ? `File is damaged or not a real .${extension} file` : `Unsupported file type${extension ? ` (.${extension})` : ''}`
+  };
+};
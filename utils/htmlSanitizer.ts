@@ -0,0 +1,116 @@
+/**
+ * Book files are untrusted input. These helpers turn book-supplied markup and
+ * CSS into something safe to render inline in the reader.
+ */
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+// Elements removed together with their content. Anything else outside the
+// allowlist below is unwrapped so its text stays readable.
+const BLOCKED_ELEMENTS = words(`
+  script iframe frame frameset object embed applet form input button textarea select option link meta base
+  style noscript template dialog portal foreignobject animate animatemotion animatetransform animatecolor set
+  handler listener discard
+`);
+
+// Element names are compared in lower case, as SVG keeps camelCase names.
+const ALLOWED_ELEMENTS = words(`
+  a abbr acronym address article aside audio b bdi bdo big blockquote br caption center cite code col colgroup
+  dd del details dfn div dl dt em figcaption figure font footer h1 h2 h3 h4 h5 h6 header hgroup hr i img ins
+  kbd li main mark nav ol p picture pre q rb rp rt rtc ruby s samp section small source span strike strong sub
+  summary sup table tbody td tfoot th thead time tr track tt u ul var video wbr
+  svg g defs desc title symbol use image path rect circle ellipse line polyline polygon text tspan textpath
+  lineargradient radialgradient stop clippath mask pattern marker
+  math mi mn mo ms mtext mspace mrow mstyle mfrac msqrt mroot msub msup msubsup munder mover munderover
+  mtable mtr mtd mpadded mphantom menclose semantics annotation
+`);
+
+const ALLOWED_ATTRIBUTES = words(`
+  id class style title lang xml:lang dir role hidden epub:type xmlns xmlns:xlink xmlns:epub
+  href xlink:href src alt width height name cite datetime start reversed type value span colspan rowspan
+  headers scope abbr align valign border cellpadding cellspacing summary color face size controls loop muted poster
+  srclang label kind
+  viewbox preserveaspectratio version x y x1 y1 x2 y2 cx cy r rx ry fx fy d points transform dx dy rotate
+  fill fill-opacity fill-rule stroke stroke-width stroke-opacity stroke-linecap stroke-linejoin stroke-dasharray
+  stroke-dashoffset stroke-miterlimit opacity clip-path clip-rule mask visibility display font-family font-size
+  font-weight font-style text-anchor dominant-baseline textlength lengthadjust offset stop-color stop-opacity
+  gradientunits gradienttransform spreadmethod patternunits patterncontentunits patterntransform clippathunits
+  maskunits maskcontentunits markerwidth markerheight markerunits refx refy orient
+  mathvariant mathsize mathcolor mathbackground displaystyle scriptlevel linethickness fence separator stretchy
+  symmetric lspace rspace accent accentunder columnalign rowalign columnspan columnlines rowlines frame notation
+  open close separators form largeop movablelimits encoding
+`);
+
+const URL_ATTRIBUTES = words('href xlink:href src poster');
+// Schemes a book may link or embed. URLs without a scheme are relative.
+const SAFE_SCHEME = /^(https?|mailto|tel|blob):/i;
+const IMAGE_DATA = /^data:image\/(png|jpe?g|gif|webp|bmp|svg\+xml)[;,]/i;
+
+// URL parsing ignores control characters and whitespace, so a scheme split
+// by them (e.g. "java&#9;script:") must be judged without them.
+const isSafeUrl = (element: string, value: string): boolean => {
+  const url = value.replace(/[\u0000-\u0020\u007f-\u009f]/g, '');
+  if (!/^[^/?#]*:/.test(url) || SAFE_SCHEME.test(url)) return true;
+  return (element === 'img' || element === 'image') && IMAGE_DATA.test(url);
+};
+
+const sanitizeElement = (el: Element) => {
+  const name = el.localName.toLowerCase();
+  if (BLOCKED_ELEMENTS.has(name)) {
+    el.remove();
+    return;
+  }
+  Array.from(el.children).forEach(sanitizeElement);
+  if (!ALLOWED_ELEMENTS.has(name)) {
+    el.replaceWith(...Array.from(el.childNodes));
+    return;
+  }
+
+  for (const attr of Array.from(el.attributes)) {
+    const attrName = attr.name.toLowerCase();
+    const allowed = ALLOWED_ATTRIBUTES.has(attrName) || attrName.startsWith('aria-');
+    if (!allowed || (URL_ATTRIBUTES.has(attrName) && !isSafeUrl(name, attr.value))) {
+      el.removeAttribute(attr.name);
+    }
+  }
+  const href = el.getAttribute('href');
+  if (name === 'a' && href && /^[a-z][\w+.-]*:/i.test(href)) {
+    el.setAttribute('target', '_blank');
+    el.setAttribute('rel', 'noopener noreferrer');
+  }
+};
+
+/**
+ * Parses (X)HTML and returns its body markup reduced to an allowlist of
+ * text, media, SVG and MathML elements and their presentational attributes.
+ * Scripts, embedded objects, forms, SVG animation, event handlers and
+ * script URLs are removed; external links open in a new tab. Stylesheets
+ * are dropped; pass them through `scopeBookCss` instead.
+ */
+export const sanitizeBookHtml = (markup: string): string => {
+  const parser = new DOMParser();
+  let doc = parser.parseFromString(markup, 'application/xhtml+xml');
+  // Fall back to the forgiving HTML parser for malformed XHTML.
+  if (doc.getElementsByTagName('parsererror').length > 0 || !doc.body) {
+    doc = parser.parseFromString(markup, 'text/html');
+  }
+  const body = doc.body;
+  if (!body) return '';
+
+  Array.from(body.children).forEach(sanitizeElement);
+  return body.innerHTML;
+};
+
+/**
+ * Confines a book stylesheet to the reader's content element so it cannot
+ * restyle the app. @font-face rules are hoisted out of the scope block, where
+ * they would be ignored, and @import rules are dropped.
+ */
+export const scopeBookCss = (css: string, scopeSelector: string): string => {
+  const fontFaces: string[] = [];
+  const rules = css
+    .replace(/@import[^;]*;/gi, '')
+    .replace(/@charset[^;]*;/gi, '')
+    .replace(/@font-face\s*\{[^}]*\}/gi, (rule) => { fontFaces.push(rule); return ''; });
+  return `${fontFaces.join('\n')}\n@scope (${scopeSelector}) {\n${rules}\n}`;
+};
@@ -0,0 +1,312 @@
+/**
+ * KF8 (AZW3) reader. KF8 text is stored as skeleton files with fragments
+ * spliced into them; this rebuilds the XHTML parts in reading order and
+ * rewrites `kindle:` URLs so the parts can be rendered directly.
+ */
+
+import {
+  MobiHeader, ParseOptions, getRecordOffsets, getRecord, readMobiHeader, getExthNumber,
+  readTextRecords, readIndex, readNcx, decodeMobiString
+} from './mobiParser';
+import { sniffImageType } from './imageType';
+import { TocEntry } from '../types';
+
+export interface Kf8Part {
+  index: number;
+  // Element id the part is rendered under; links to a position without a
+  // nearby named element point here.
+  anchor: string;
+  // XHTML source with kindle: URLs resolved.
+  html: string;
+}
+
+export interface Kf8Book {
+  parts: Kf8Part[];
+  // Stylesheets linked from the parts, in first-use order.
+  styles: string[];
+  // From the NCX index, linking to anchors in the parts.
+  toc: TocEntry[];
+  // Object URLs created for images, fonts and SVG flows.
+  resourceUrls: string[];
+}
+
+const NO_INDEX = 0xffffffff;
+
+// Offsets within the KF8 header record.
+const KF8_FDST_INDEX = 0xc0;
+const KF8_FRAG_INDEX = 0xf8;
+const KF8_SKEL_INDEX = 0xfc;
+
+const POS_LINK = /kindle:pos:fid:([0-9a-v]+):off:([0-9a-v]+)/gi;
+const EMBED_LINK = /kindle:embed:([0-9a-v]+)(?:\?mime=([\w/+.-]+))?/gi;
+const FLOW_LINK = /kindle:flow:([0-9a-v]+)(?:\?mime=([\w/+.-]+))?/gi;
+const STYLESHEET_LINK = /<link\b[^>]*\bhref\s*=\s*["']kindle:flow:([0-9a-v]+)\?mime=text\/css["'][^>]*>/gi;
+
+const ID_ATTR = /<[^>]*\sid\s*=\s*['"]([^'"]+)['"]/gi;
+const NAME_ATTR = /<a\s[^>]*\bname\s*=\s*['"]([^'"]+)['"]/gi;
+
+const base32 = (value: string) => parseInt(value, 32);
+
+export const partAnchor = (index: number) => `kf8-part-${index}`;
+
+/**
+ * Returns the record index of the KF8 header: 0 for KF8-only files, the
+ * EXTH 121 boundary for joint MOBI6/KF8 files, or null for MOBI6-only files.
+ */
+export function getKf8Start(buffer: ArrayBuffer, recordOffsets = getRecordOffsets(buffer)): number | null {
+  const header = readMobiHeader(buffer, recordOffsets);
+  if (header.version >= 8) return 0;
+  const boundary = getExthNumber(header, 121);
+  if (boundary === undefined || boundary === NO_INDEX || boundary >= recordOffsets.length) return null;
+  return boundary;
+}
+
+export function isKf8(buffer: ArrayBuffer): boolean {
+  try {
+    return getKf8Start(buffer) !== null;
+  } catch (e) {
+    return false;
+  }
+}
+
+export function releaseKf8Book(book: Kf8Book) {
+  book.resourceUrls.forEach(url => URL.revokeObjectURL(url));
+  book.resourceUrls = [];
+}
+
+const concat = (...chunks: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Embedded fonts are stored in FONT records, optionally zlib-compressed and
+ * with their first bytes XOR-obfuscated.
+ */
+const readFontRecord = async (record: Uint8Array): Promise<Uint8Array> => {
+  const view = new DataView(record.buffer, record.byteOffset, record.byteLength);
+  const flags = view.getUint32(8, false);
+  const dataStart = view.getUint32(12, false);
+  const keyLength = view.getUint32(16, false);
+  const keyStart = view.getUint32(20, false);
+
+  let data = record.slice(dataStart);
+  if (flags & 2 && keyLength > 0) {
+    const key = record.subarray(keyStart, keyStart + keyLength);
+    for (let i = 0; i < Math.min(1040, data.length); i++) data[i] ^= key[i % keyLength];
+  }
+  if (flags & 1) data = await inflate(data);
+  return data;
+};
+
+/**
+ * Reads the flow table: flow 0 is the XHTML text, later flows hold CSS and SVG.
+ */
+const readFlows = (buffer: ArrayBuffer, recordOffsets: number[], fdstIndex: number, textLength: number): [number, number][] => {
+  if (fdstIndex === NO_INDEX || fdstIndex >= recordOffsets.length) return [[0, textLength]];
+  const record = getRecord(buffer, recordOffsets, fdstIndex);
+  if (String.fromCharCode(...record.subarray(0, 4)) !== 'FDST') return [[0, textLength]];
+  const view = new DataView(record.buffer, record.byteOffset, record.byteLength);
+  const tableOffset = view.getUint32(4, false);
+  const count = view.getUint32(8, false);
+  const flows: [number, number][] = [];
+  for (let i = 0; i < count; i++) {
+    flows.push([view.getUint32(tableOffset + i * 8, false), view.getUint32(tableOffset + i * 8 + 4, false)]);
+  }
+  return flows.length > 0 ? flows : [[0, textLength]];
+};
+
+/**
+ * Parses a KF8 book. With `resources: false` no object URLs are created and
+ * embedded resources are dropped, which is enough for text extraction.
+ */
+export async function parseKf8(buffer: ArrayBuffer, options: ParseOptions = {}): Promise<Kf8Book> {
+  const loadResources = options.resources !== false;
+  const recordOffsets = getRecordOffsets(buffer);
+  const firstHeader = readMobiHeader(buffer, recordOffsets);
+  const start = getKf8Start(buffer, recordOffsets);
+  if (start === null) throw new Error("This file does not contain a KF8 (AZW3) book.");
+
+  const header: MobiHeader = start === 0 ? firstHeader : readMobiHeader(buffer, recordOffsets, start);
+  const headerRecord = getRecord(buffer, recordOffsets, start);
+  if (headerRecord.byteLength < KF8_SKEL_INDEX + 4) throw new Error("Invalid KF8 file: header is too short.");
+  const headerView = new DataView(headerRecord.buffer, headerRecord.byteOffset, headerRecord.byteLength);
+  // Index records in the KF8 header count from the KF8 boundary.
+  const relative = (index: number) => index === NO_INDEX ? NO_INDEX : start + index;
+
+  const text = readTextRecords(buffer, recordOffsets, header, start, options.onProgress);
+  const flows = readFlows(buffer, recordOffsets, relative(headerView.getUint32(KF8_FDST_INDEX, false)), text.length);
+  const decode = (bytes: Uint8Array) => decodeMobiString(bytes, header.textEncoding);
+
+  const skelIndex = relative(headerView.getUint32(KF8_SKEL_INDEX, false));
+  const fragIndex = relative(headerView.getUint32(KF8_FRAG_INDEX, false));
+  if (skelIndex === NO_INDEX || fragIndex === NO_INDEX) throw new Error("Invalid KF8 file: missing skeleton or fragment index.");
+
+  const skeletons = readIndex(buffer, recordOffsets, skelIndex).entries.map(entry => ({
+    fragCount: entry.tags.get(1)?.[0] ?? 0,
+    offset: entry.tags.get(6)?.[0] ?? 0,
+    length: entry.tags.get(6)?.[1] ?? 0
+  }));
+  const fragments = readIndex(buffer, recordOffsets, fragIndex).entries.map(entry => ({
+    // Entry names hold the absolute text position the fragment is inserted at.
+    insertAt: parseInt(entry.name, 10),
+    length: entry.tags.get(6)?.[1] ?? 0
+  }));
+
+  // Splice each skeleton's fragments into it. Fragment text follows the
+  // skeleton in the text flow, in insertion order.
+  const rawParts: { start: number; bytes: Uint8Array }[] = [];
+  let nextFragment = 0;
+  for (const skeleton of skeletons) {
+    let bytes = text.slice(skeleton.offset, skeleton.offset + skeleton.length);
+    let base = skeleton.offset + skeleton.length;
+    for (let i = 0; i < skeleton.fragCount && nextFragment < fragments.length; i++) {
+      const fragment = fragments[nextFragment++];
+      const at = Math.min(bytes.length, Math.max(0, fragment.insertAt - skeleton.offset));
+      bytes = concat(bytes.subarray(0, at), text.subarray(base, base + fragment.length), bytes.subarray(at));
+      base += fragment.length;
+    }
+    rawParts.push({ start: skeleton.offset, bytes });
+  }
+
+  // Anchor positions per part, computed on first use. Byte offsets are kept
+  // by searching a latin1 view of the raw bytes.
+  const anchorCache = new Map<number, { source: string; ids: { at: number; id: string }[] }>();
+  const getAnchors = (partIndex: number) => {
+    let cached = anchorCache.get(partIndex);
+    if (!cached) {
+      const source = new TextDecoder('latin1').decode(rawParts[partIndex].bytes);
+      const ids: { at: number; id: string }[] = [];
+      for (const pattern of [ID_ATTR, NAME_ATTR]) {
+        for (const match of source.matchAll(pattern)) ids.push({ at: match.index!, id: match[1] });
+      }
+      ids.sort((a, b) => a.at - b.at);
+      cached = { source, ids };
+      anchorCache.set(partIndex, cached);
+    }
+    return cached;
+  };
+
+  // Links a byte position in the text to the last named element that starts
+  // at or before it.
+  const resolveTextPosition = (pos: number): string => {
+    const partIndex = rawParts.findIndex(p => pos >= p.start && pos < p.start + p.bytes.length);
+    if (partIndex < 0) return '#';
+
+    const { source, ids } = getAnchors(partIndex);
+    let at = pos - rawParts[partIndex].start;
+    // Inside a tag: include that tag itself.
+    const nextOpen = source.indexOf('<', at);
+    const nextClose = source.indexOf('>', at);
+    if (nextClose >= 0 && (nextOpen === at || nextOpen < 0 || nextClose < nextOpen)) at = nextClose + 1;
+
+    let id: string | undefined;
+    for (const anchor of ids) {
+      if (anchor.at >= at) break;
+      id = anchor.id;
+    }
+    return `#${id ? encodeURIComponent(id) : partAnchor(partIndex)}`;
+  };
+
+  // kindle:pos links and NCX entries point into a fragment.
+  const resolvePosition = (fid: number, offset: number): string => {
+    const fragment = fragments[fid];
+    return fragment ? resolveTextPosition(fragment.insertAt + offset) : '#';
+  };
+
+  const resourceUrls: string[] = [];
+  const urlCache = new Map<string, string>();
+  const createUrl = (key: string, data: Uint8Array, type?: string): string => {
+    let url = urlCache.get(key);
+    if (!url) {
+      url = URL.createObjectURL(new Blob([data], { type }));
+      urlCache.set(key, url);
+      resourceUrls.push(url);
+    }
+    return url;
+  };
+
+  const embedUrls = new Map<number, string>();
+  const loadEmbeds = async (source: string) => {
+    if (!loadResources || firstHeader.firstImageIndex === NO_INDEX) return;
+    for (const match of source.matchAll(EMBED_LINK)) {
+      const index = base32(match[1]) - 1;
+      const recordIndex = firstHeader.firstImageIndex + index;
+      if (index < 0 || embedUrls.has(index) || recordIndex >= recordOffsets.length) continue;
+      const record = getRecord(buffer, recordOffsets, recordIndex);
+      try {
+        if (String.fromCharCode(...record.subarray(0, 4)) === 'FONT') {
+          embedUrls.set(index, createUrl(`embed:${index}`, await readFontRecord(record), match[2]));
+        } else {
+          embedUrls.set(index, createUrl(`embed:${index}`, record, match[2] || sniffImageType(record)));
+        }
+      } catch (e) {
+        console.warn(`Could not load KF8 resource ${index}`, e);
+      }
+    }
+  };
+  const resolveEmbeds = (source: string) =>
+    source.replace(EMBED_LINK, (_, index) => embedUrls.get(base32(index) - 1) || '');
+
+  const flowText = (index: number) => {
+    const [from, to] = flows[index] || [0, 0];
+    return decode(text.subarray(from, to));
+  };
+
+  const styles: string[] = [];
+  const styleFlows = new Set<number>();
+
+  const parts: Kf8Part[] = [];
+  for (let i = 0; i < rawParts.length; i++) {
+    let html = decode(rawParts[i].bytes);
+
+    // Linked stylesheets are returned separately.
+    html = html.replace(STYLESHEET_LINK, (_, index) => {
+      const flow = base32(index);
+      if (!styleFlows.has(flow)) {
+        styleFlows.add(flow);
+        styles.push(flowText(flow));
+      }
+      return '';
+    });
+    parts.push({ index: i, anchor: partAnchor(i), html });
+  }
+
+  for (const source of [...parts.map(p => p.html), ...styles]) await loadEmbeds(source);
+
+  for (const part of parts) {
+    part.html = resolveEmbeds(part.html)
+      .replace(POS_LINK, (_, fid, offset) => resolvePosition(base32(fid), base32(offset)))
+      // Remaining flows are inline SVG images.
+      .replace(FLOW_LINK, (_, index, type) => loadResources
+        ? createUrl(`flow:${base32(index)}`, new TextEncoder().encode(flowText(base32(index))), type || 'image/svg+xml')
+        : '');
+  }
+
+  const toc: TocEntry[] = readNcx(buffer, recordOffsets, relative(header.ncxIndex))
+    .map(entry => {
+      const position = entry.tags.get(6);
+      const href = position ? resolvePosition(position[0], position[1] ?? 0)
+        : entry.pos >= 0 ? resolveTextPosition(entry.pos)
+        : '#';
+      return { title: entry.title, level: entry.level, href };
+    })
+    .filter(entry => entry.href !== '#');
+
+  return {
+    parts,
+    styles: styles.map(resolveEmbeds),
+    toc,
+    resourceUrls
+  };
+}
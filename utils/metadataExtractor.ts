@@ -0,0 +1,292 @@
+import { BookContent, BookFormat } from '../types';
+import { readMobiHeader, readMobiMetadata, getRecordOffsets, getRecord, getExthNumber } from './mobiParser';
+import { sniffImageType } from './imageType';
+import { decodeBookContent } from './encoding';
+import { parseRtf } from './rtfParser';
+
+export interface ExtractedMetadata {
+  title?: string;
+  author?: string;
+  language?: string;
+  publisher?: string;
+  description?: string;
+  isbn?: string;
+  cover?: string; // JPEG data URL, already downscaled
+}
+
+const COVER_MAX_WIDTH = 400;
+const COVER_MAX_HEIGHT = 600;
+
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const OPF_NS = 'http://www.idpf.org/2007/opf';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+/**
+ * Reads title, author, language, publisher, description, ISBN and the cover
+ * image embedded in a book file. Every field is optional; callers fall back
+ * to file-name based defaults for anything missing.
+ */
+export const extractMetadata = async (format: BookFormat, content: BookContent, encoding?: string): Promise<ExtractedMetadata> => {
+  try {
+    switch (format) {
+      case 'epub':
+        return await extractEpubMetadata(toArrayBuffer(content));
+      case 'pdf':
+        return await extractPdfMetadata(toArrayBuffer(content));
+      case 'fb2':
+        return await extractFb2Metadata(decodeBookContent(content, format, encoding));
+      case 'mobi':
+      case 'azw3':
+        return await extractMobiMetadata(toArrayBuffer(content));
+      case 'rtf':
+        return extractRtfMetadata(decodeBookContent(content, format, encoding));
+      default:
+        return {};
+    }
+  } catch (e) {
+    console.warn(`Metadata extraction failed for ${format}`, e);
+    return {};
+  }
+};
+
+// --- Internal Helpers ---
+
+const toArrayBuffer = (content: BookContent): ArrayBuffer =>
+  typeof content === 'string' ? new TextEncoder().encode(content).buffer : content;
+
+const clean = (value: string | null | undefined): string | undefined => {
+  const text = value?.replace(/\s+/g, ' ').trim();
+  return text ? text : undefined;
+};
+
+const stripHtml = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const doc = new DOMParser().parseFromString(value, 'text/html');
+  return clean(doc.body.textContent);
+};
+
+const normalizeIsbn = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const digits = value.replace(/^urn:isbn:/i, '').replace(/[\s-]/g, '').toUpperCase();
+  return /^(97[89]\d{9}[\dX]|\d{9}[\dX])$/.test(digits) ? digits : undefined;
+};
+
+/**
+ * Downscales an image to thumbnail size so covers stay small in the
+ * metadata store.
+ */
+const imageToCoverDataUrl = async (blob: Blob): Promise<string | undefined> => {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(1, COVER_MAX_WIDTH / bitmap.width, COVER_MAX_HEIGHT / bitmap.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return undefined;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas.toDataURL('image/jpeg', 0.85);
+};
+
+// --- EPUB ---
+
+const resolveZipPath = (base: string, href: string): string => {
+  const parts = (base ? base.split('/') : []).concat(decodeURIComponent(href.split('#')[0]).split('/'));
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+};
+
+const extractEpubMetadata = async (buffer: ArrayBuffer): Promise<ExtractedMetadata> => {
+  const JSZip = (window as any).JSZip;
+  const zip = await JSZip.loadAsync(buffer);
+
+  const containerXml = await zip.file('META-INF/container.xml')?.async('string');
+  if (!containerXml) return {};
+  const container = new DOMParser().parseFromString(containerXml, 'application/xml');
+  const opfPath = container.getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  if (!opfPath) return {};
+
+  const opfXml = await zip.file(opfPath)?.async('string');
+  if (!opfXml) return {};
+  const opf = new DOMParser().parseFromString(opfXml, 'application/xml');
+  const opfDir = opfPath.includes('/') ? opfPath.substring(0, opfPath.lastIndexOf('/')) : '';
+
+  const dc = (name: string) => Array.from(opf.getElementsByTagNameNS(DC_NS, name));
+  const first = (name: string) => clean(dc(name)[0]?.textContent);
+
+  const authors = dc('creator')
+    .filter(el => {
+      const role = el.getAttributeNS(OPF_NS, 'role') || el.getAttribute('opf:role');
+      return !role || role === 'aut';
+    })
+    .map(el => clean(el.textContent))
+    .filter(Boolean);
+
+  // Identifiers are a mix of UUIDs, ISBNs and shop ids; keep the first valid ISBN.
+  const isbn = dc('identifier')
+    .map(el => normalizeIsbn(clean(el.textContent)))
+    .find(Boolean);
+
+  const metadata: ExtractedMetadata = {
+    title: first('title'),
+    author: authors.length > 0 ? authors.join(', ') : undefined,
+    language: first('language'),
+    publisher: first('publisher'),
+    description: stripHtml(dc('description')[0]?.textContent || undefined),
+    isbn
+  };
+
+  // EPUB 3 marks the cover with properties="cover-image"; EPUB 2 uses <meta name="cover">.
+  const items = Array.from(opf.getElementsByTagName('item'));
+  const coverMetaId = Array.from(opf.getElementsByTagName('meta'))
+    .find(m => m.getAttribute('name') === 'cover')?.getAttribute('content');
+  const coverItem =
+    items.find(i => (i.getAttribute('properties') || '').split(/\s+/).includes('cover-image')) ||
+    items.find(i => coverMetaId && i.getAttribute('id') === coverMetaId) ||
+    items.find(i => /^image\//.test(i.getAttribute('media-type') || '') && /cover/i.test(`${i.getAttribute('id')} ${i.getAttribute('href')}`));
+
+  const coverHref = coverItem?.getAttribute('href');
+  if (coverHref && /^image\//.test(coverItem?.getAttribute('media-type') || '')) {
+    const coverFile = zip.file(resolveZipPath(opfDir, coverHref));
+    if (coverFile) {
+      const bytes: Uint8Array = await coverFile.async('uint8array');
+      metadata.cover = await imageToCoverDataUrl(new Blob([bytes], { type: coverItem?.getAttribute('media-type') || undefined }));
+    }
+  }
+
+  return metadata;
+};
+
+// --- PDF ---
+
+const extractPdfMetadata = async (buffer: ArrayBuffer): Promise<ExtractedMetadata> => {
+  const pdfjsLib = (window as any).pdfjsLib;
+  pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdn.jsdelivr.net/npm/pdfjs-dist@3.4.120/build/pdf.worker.min.js';
+
+  const doc = await pdfjsLib.getDocument({ data: buffer.slice(0) }).promise;
+  try {
+    const { info, metadata: xmp } = await doc.getMetadata();
+    const fromXmp = (key: string) => {
+      const value = xmp?.get(key);
+      return clean(Array.isArray(value) ? value.join(', ') : value);
+    };
+
+    const metadata: ExtractedMetadata = {
+      title: clean(info?.Title) || fromXmp('dc:title'),
+      author: clean(info?.Author) || fromXmp('dc:creator'),
+      language: clean(info?.Language) || fromXmp('dc:language'),
+      publisher: fromXmp('dc:publisher'),
+      description: clean(info?.Subject) || fromXmp('dc:description'),
+      isbn: normalizeIsbn(fromXmp('dc:identifier'))
+    };
+
+    // First-page thumbnail
+    const page = await doc.getPage(1);
+    const unscaled = page.getViewport({ scale: 1 });
+    const scale = Math.min(COVER_MAX_WIDTH / unscaled.width, COVER_MAX_HEIGHT / unscaled.height);
+    const viewport = page.getViewport({ scale });
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.floor(viewport.width);
+    canvas.height = Math.floor(viewport.height);
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      await page.render({ canvasContext: ctx, viewport }).promise;
+      metadata.cover = canvas.toDataURL('image/jpeg', 0.85);
+    }
+
+    return metadata;
+  } finally {
+    doc.destroy();
+  }
+};
+
+// --- FB2 ---
+
+const extractFb2Metadata = async (text: string): Promise<ExtractedMetadata> => {
+  const xml = new DOMParser().parseFromString(text, 'application/xml');
+  const titleInfo = xml.getElementsByTagName('title-info')[0];
+  if (!titleInfo) return {};
+
+  const child = (parent: Element | undefined, name: string) => parent?.getElementsByTagName(name)[0];
+
+  const authors = Array.from(titleInfo.getElementsByTagName('author'))
+    .map(a => {
+      const name = ['first-name', 'middle-name', 'last-name']
+        .map(n => clean(child(a, n)?.textContent))
+        .filter(Boolean)
+        .join(' ');
+      return name || clean(child(a, 'nickname')?.textContent);
+    })
+    .filter(Boolean);
+
+  const publishInfo = xml.getElementsByTagName('publish-info')[0];
+
+  const metadata: ExtractedMetadata = {
+    title: clean(child(titleInfo, 'book-title')?.textContent),
+    author: authors.length > 0 ? authors.join(', ') : undefined,
+    language: clean(child(titleInfo, 'lang')?.textContent),
+    publisher: clean(child(publishInfo, 'publisher')?.textContent),
+    description: clean(child(titleInfo, 'annotation')?.textContent),
+    isbn: normalizeIsbn(clean(child(publishInfo, 'isbn')?.textContent))
+  };
+
+  const coverImage = child(child(titleInfo, 'coverpage'), 'image');
+  const href = coverImage?.getAttributeNS(XLINK_NS, 'href') || coverImage?.getAttribute('l:href') || coverImage?.getAttribute('href');
+  if (href?.startsWith('#')) {
+    const id = href.substring(1);
+    const binary = Array.from(xml.getElementsByTagName('binary')).find(b => b.getAttribute('id') === id);
+    if (binary?.textContent) {
+      const raw = atob(binary.textContent.replace(/\s+/g, ''));
+      const bytes = new Uint8Array(raw.length);
+      for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i);
+      const type = binary.getAttribute('content-type') || sniffImageType(bytes);
+      metadata.cover = await imageToCoverDataUrl(new Blob([bytes], { type }));
+    }
+  }
+
+  return metadata;
+};
+
+// --- MOBI / AZW3 ---
+
+const extractMobiMetadata = async (buffer: ArrayBuffer): Promise<ExtractedMetadata> => {
+  const recordOffsets = getRecordOffsets(buffer);
+  const header = readMobiHeader(buffer, recordOffsets);
+
+  const exth = readMobiMetadata(header);
+  const metadata: ExtractedMetadata = {
+    title: clean(exth.title),
+    author: exth.author,
+    publisher: exth.publisher,
+    description: stripHtml(exth.description),
+    isbn: normalizeIsbn(exth.isbn),
+    language: exth.language
+  };
+
+  // EXTH 201 (cover) / 202 (thumbnail) hold offsets from the first image record.
+  const coverOffset = getExthNumber(header, 201) ?? getExthNumber(header, 202);
+  if (coverOffset !== undefined && coverOffset !== 0xffffffff && header.firstImageIndex !== 0xffffffff) {
+    const index = header.firstImageIndex + coverOffset;
+    if (index < recordOffsets.length) {
+      const bytes = getRecord(buffer, recordOffsets, index);
+      const type = sniffImageType(bytes);
+      if (type) metadata.cover = await imageToCoverDataUrl(new Blob([bytes], { type }));
+    }
+  }
+
+  return metadata;
+};
+
+// --- RTF ---
+
+// Title and author from the {\info} group.
+const extractRtfMetadata = (source: string): ExtractedMetadata => {
+  const doc = parseRtf(source);
+  return { title: clean(doc.title), author: clean(doc.author) };
+};
@@ -1,94 +1,672 @@
-
 /**
  * A lightweight MOBI (PalmDOC) parser for the browser.
- * Extracts text content from standard uncompressed or PalmDOC-compressed MOBI files.
+ * Extracts text content from uncompressed, PalmDOC- and HUFF/CDIC-compressed MOBI files.
  */
 
-export async function parseMobi(buffer: ArrayBuffer): Promise<string> {
+import { TocEntry } from '../types';
+import { encodingFromCodePage, decodeBookContent } from './encoding';
+import { sniffImageType } from './imageType';
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_PALMDOC = 2;
+const COMPRESSION_HUFF_CDIC = 17480;
+
+const NO_INDEX = 0xffffffff;
+
+export interface MobiHeader {
+  compression: number;
+  textRecordCount: number;
+  // Code page declared by the MOBI header (1252 or 65001).
+  textEncoding: number;
+  // MOBI format version: 6 for legacy MOBI, 8 for KF8.
+  version: number;
+  fullName: string;
+  firstImageIndex: number;
+  // First HUFF record followed by its CDIC records (HUFF/CDIC compression only).
+  huffRecordIndex: number;
+  huffRecordCount: number;
+  // Bit 0: multibyte overlap bytes; higher bits: one trailing entry each.
+  extraDataFlags: number;
+  // INDX record of the NCX (table of contents) index, or 0xffffffff.
+  ncxIndex: number;
+  // EXTH records by type; a type may repeat (e.g. several authors).
+  exth: Map<number, Uint8Array[]>;
+}
+
+/**
+ * Reads the PDB record table.
+ */
+export function getRecordOffsets(buffer: ArrayBuffer): number[] {
+  const data = new DataView(buffer);
+  const numRecords = data.getUint16(76, false);
+  const recordOffsets: number[] = [];
+  for (let i = 0; i < numRecords; i++) {
+    recordOffsets.push(data.getUint32(78 + i * 8, false));
+  }
+  return recordOffsets;
+}
+
+export function getRecord(buffer: ArrayBuffer, recordOffsets: number[], index: number): Uint8Array {
+  const start = recordOffsets[index];
+  const end = index + 1 < recordOffsets.length ? recordOffsets[index + 1] : buffer.byteLength;
+  return new Uint8Array(buffer, start, Math.max(0, Math.min(end, buffer.byteLength) - start));
+}
+
+/**
+ * Parses the PalmDOC + MOBI header and the EXTH block of record 0, or of the
+ * given record (the KF8 header of a joint MOBI6/KF8 file).
+ */
+export function readMobiHeader(buffer: ArrayBuffer, recordOffsets: number[] = getRecordOffsets(buffer), recordIndex = 0): MobiHeader {
+  const record = getRecord(buffer, recordOffsets, recordIndex);
+  const data = new DataView(record.buffer, record.byteOffset, record.byteLength);
+
+  const header: MobiHeader = {
+    compression: data.getUint16(0, false),
+    textRecordCount: data.getUint16(8, false),
+    textEncoding: 1252,
+    version: 0,
+    fullName: '',
+    firstImageIndex: NO_INDEX,
+    huffRecordIndex: 0,
+    huffRecordCount: 0,
+    extraDataFlags: 0,
+    ncxIndex: NO_INDEX,
+    exth: new Map()
+  };
+
+  // Plain PalmDOC files stop after the 16-byte PalmDOC header.
+  if (record.byteLength < 0x84 || readAscii(record, 0x10, 4) !== 'MOBI') return header;
+
+  const mobiHeaderLength = data.getUint32(0x14, false);
+  header.textEncoding = data.getUint32(0x1c, false);
+  header.version = data.getUint32(0x24, false);
+  header.firstImageIndex = data.getUint32(0x6c, false);
+  header.huffRecordIndex = data.getUint32(0x70, false);
+  header.huffRecordCount = data.getUint32(0x74, false);
+  if (header.version >= 5 && mobiHeaderLength >= 0xe4) {
+    header.extraDataFlags = data.getUint16(0xf2, false);
+  }
+  if (mobiHeaderLength >= 0xe8) header.ncxIndex = data.getUint32(0xf4, false);
+
+  const fullNameOffset = data.getUint32(0x54, false);
+  const fullNameLength = data.getUint32(0x58, false);
+  if (fullNameOffset + fullNameLength <= record.byteLength) {
+    header.fullName = decodeMobiString(record.subarray(fullNameOffset, fullNameOffset + fullNameLength), header.textEncoding);
+  }
+
+  const hasExth = (data.getUint32(0x80, false) & 0x40) !== 0;
+  const exthOffset = 0x10 + mobiHeaderLength;
+  if (hasExth && exthOffset + 12 <= record.byteLength && readAscii(record, exthOffset, 4) === 'EXTH') {
+    const count = data.getUint32(exthOffset + 8, false);
+    let pos = exthOffset + 12;
+    for (let i = 0; i < count && pos + 8 <= record.byteLength; i++) {
+      const type = data.getUint32(pos, false);
+      const length = data.getUint32(pos + 4, false);
+      if (length < 8 || pos + length > record.byteLength) break;
+      const values = header.exth.get(type) || [];
+      values.push(record.subarray(pos + 8, pos + length));
+      header.exth.set(type, values);
+      pos += length;
+    }
+  }
+
+  return header;
+}
+
+export function getExthString(header: MobiHeader, type: number): string | undefined {
+  const values = header.exth.get(type);
+  if (!values || values.length === 0) return undefined;
+  return values.map(v => decodeMobiString(v, header.textEncoding).trim()).filter(Boolean).join(', ') || undefined;
+}
+
+export interface MobiMetadata {
+  title?: string;
+  author?: string;
+  publisher?: string;
+  // May contain HTML.
+  description?: string;
+  isbn?: string;
+  subject?: string;
+  publishedDate?: string;
+  language?: string;
+}
+
+/**
+ * Collects the descriptive EXTH records, falling back to the header's full
+ * name for the title.
+ */
+export function readMobiMetadata(header: MobiHeader): MobiMetadata {
+  return {
+    title: getExthString(header, 503) || header.fullName || undefined,
+    author: getExthString(header, 100),
+    publisher: getExthString(header, 101),
+    description: getExthString(header, 103),
+    isbn: getExthString(header, 104),
+    subject: getExthString(header, 105),
+    publishedDate: getExthString(header, 106),
+    language: getExthString(header, 524)
+  };
+}
+
+export function getExthNumber(header: MobiHeader, type: number): number | undefined {
+  const value = header.exth.get(type)?.[0];
+  if (!value || value.byteLength < 4) return undefined;
+  return new DataView(value.buffer, value.byteOffset, value.byteLength).getUint32(0, false);
+}
+
+/**
+ * Reads the backward-encoded variable-length size that ends a trailing entry.
+ */
+function getTrailingEntrySize(record: Uint8Array, end: number): number {
+  let size = 0;
+  for (let i = Math.max(0, end - 4); i < end; i++) {
+    if (record[i] & 0x80) size = 0;
+    size = (size << 7) | (record[i] & 0x7f);
+  }
+  return size;
+}
+
+/**
+ * Removes the trailing entries (TBS indexing data, multibyte overlap) that
+ * follow the compressed text of each record when extra data flags are set.
+ */
+export function stripTrailingEntries(record: Uint8Array, extraDataFlags: number): Uint8Array {
+  let end = record.length;
+  for (let flags = extraDataFlags >>> 1; flags; flags >>>= 1) {
+    if (flags & 1) end -= getTrailingEntrySize(record, end);
+  }
+  if (extraDataFlags & 1 && end > 0) end -= (record[end - 1] & 0x3) + 1;
+  return record.subarray(0, Math.max(0, end));
+}
+
+/**
+ * Decompresses the text records that follow the header at record `start`,
+ * with trailing entries removed. KF8 headers count their records from the
+ * KF8 boundary, hence the offset. `onProgress` receives the fraction of
+ * records decoded.
+ */
+export function readTextRecords(
+  buffer: ArrayBuffer,
+  recordOffsets: number[],
+  header: MobiHeader,
+  start = 0,
+  onProgress?: (fraction: number) => void
+): Uint8Array {
+  let decompress: (chunk: Uint8Array) => Uint8Array;
+  if (header.compression === COMPRESSION_PALMDOC) {
+    decompress = decompressPalmDOC;
+  } else if (header.compression === COMPRESSION_NONE) {
+    decompress = (chunk) => chunk;
+  } else if (header.compression === COMPRESSION_HUFF_CDIC) {
+    decompress = createHuffCdicDecoder(buffer, recordOffsets, { ...header, huffRecordIndex: header.huffRecordIndex + start });
+  } else {
+    throw new Error(`Unsupported MOBI compression type ${header.compression}.`);
+  }
+
+  const chunks: Uint8Array[] = [];
+  for (let i = 1; i <= header.textRecordCount && start + i < recordOffsets.length; i++) {
+    const record = stripTrailingEntries(getRecord(buffer, recordOffsets, start + i), header.extraDataFlags);
+    chunks.push(decompress(record));
+    onProgress?.(i / header.textRecordCount);
+  }
+  return concatBytes(chunks);
+}
+
+export interface IndexEntry {
+  name: string;
+  // Tag values by tag number.
+  tags: Map<number, number[]>;
+}
+
+/**
+ * Reads a forward-encoded variable-length integer; the last byte has the high bit set.
+ */
+function readVarLen(bytes: Uint8Array, pos: number): { value: number; length: number } {
+  let value = 0;
+  let length = 0;
+  while (length < 4 && pos + length < bytes.length) {
+    const byte = bytes[pos + length++];
+    value = (value * 128) + (byte & 0x7f);
+    if (byte & 0x80) break;
+  }
+  return { value, length };
+}
+
+const countBits = (value: number) => {
+  let count = 0;
+  for (; value; value >>>= 1) count += value & 1;
+  return count;
+};
+
+/**
+ * Reads an INDX index (NCX, skeleton or fragment table): the header record
+ * with its TAGX tag table, the entry records that follow it and the CNCX
+ * string records after those. CNCX strings are keyed by the offset that
+ * index entries use to refer to them.
+ */
+export function readIndex(buffer: ArrayBuffer, recordOffsets: number[], indexRecord: number): { entries: IndexEntry[]; cncx: Map<number, string> } {
+  const header = getRecord(buffer, recordOffsets, indexRecord);
+  if (readAscii(header, 0, 4) !== 'INDX') throw new Error("Invalid MOBI file: bad INDX record.");
+  const view = new DataView(header.buffer, header.byteOffset, header.byteLength);
+  const headerLength = view.getUint32(4, false);
+  const entryRecordCount = view.getUint32(24, false);
+  const encoding = view.getUint32(28, false);
+  const cncxCount = view.getUint32(52, false);
+
+  const tagxOffset = headerLength;
+  if (readAscii(header, tagxOffset, 4) !== 'TAGX') throw new Error("Invalid MOBI file: bad TAGX section.");
+  const tagxLength = view.getUint32(tagxOffset + 4, false);
+  const controlByteCount = view.getUint32(tagxOffset + 8, false);
+  const tagTable: { tag: number; valuesPerEntry: number; mask: number; endFlag: number }[] = [];
+  for (let pos = tagxOffset + 12; pos + 4 <= tagxOffset + tagxLength; pos += 4) {
+    tagTable.push({ tag: header[pos], valuesPerEntry: header[pos + 1], mask: header[pos + 2], endFlag: header[pos + 3] });
+  }
+
+  const cncx = new Map<number, string>();
+  for (let i = 0; i < cncxCount; i++) {
+    const record = getRecord(buffer, recordOffsets, indexRecord + entryRecordCount + 1 + i);
+    for (let pos = 0; pos < record.length;) {
+      const start = pos;
+      const { value, length } = readVarLen(record, pos);
+      if (length === 0) break;
+      pos += length;
+      cncx.set(i * 0x10000 + start, decodeMobiString(record.subarray(pos, pos + value), encoding));
+      pos += value;
+    }
+  }
+
+  const entries: IndexEntry[] = [];
+  for (let r = 1; r <= entryRecordCount; r++) {
+    const record = getRecord(buffer, recordOffsets, indexRecord + r);
+    if (readAscii(record, 0, 4) !== 'INDX') throw new Error("Invalid MOBI file: bad INDX record.");
+    const recordView = new DataView(record.buffer, record.byteOffset, record.byteLength);
+    const idxtOffset = recordView.getUint32(20, false);
+    const entryCount = recordView.getUint32(24, false);
+
+    for (let e = 0; e < entryCount; e++) {
+      const offset = recordView.getUint16(idxtOffset + 4 + e * 2, false);
+      const nameLength = record[offset];
+      const name = readAscii(record, offset + 1, nameLength);
+      const controlStart = offset + 1 + nameLength;
+      let pos = controlStart + controlByteCount;
+      let controlIndex = 0;
+
+      // First pass: how many values (or value bytes) each tag present has.
+      const present: { tag: number; valuesPerEntry: number; count?: number; byteCount?: number }[] = [];
+      for (const { tag, valuesPerEntry, mask, endFlag } of tagTable) {
+        if (endFlag & 1) {
+          controlIndex++;
+          continue;
+        }
+        const value = record[controlStart + controlIndex] & mask;
+        if (value === 0) continue;
+        if (value === mask && countBits(mask) > 1) {
+          const { value: byteCount, length } = readVarLen(record, pos);
+          pos += length;
+          present.push({ tag, valuesPerEntry, byteCount });
+        } else {
+          let shift = 0;
+          while (!((mask >> shift) & 1)) shift++;
+          present.push({ tag, valuesPerEntry, count: value >> shift });
+        }
+      }
+
+      // Second pass: the values themselves.
+      const tags = new Map<number, number[]>();
+      for (const { tag, valuesPerEntry, count, byteCount } of present) {
+        const values: number[] = [];
+        if (count !== undefined) {
+          for (let v = 0; v < count * valuesPerEntry; v++) {
+            const { value, length } = readVarLen(record, pos);
+            values.push(value);
+            pos += length;
+          }
+        } else {
+          for (let consumed = 0; consumed < byteCount!;) {
+            const { value, length } = readVarLen(record, pos);
+            if (length === 0) break;
+            values.push(value);
+            pos += length;
+            consumed += length;
+          }
+        }
+        tags.set(tag, values);
+      }
+      entries.push({ name, tags });
+    }
+  }
+
+  return { entries, cncx };
+}
+
+export function decodeMobiString(bytes: Uint8Array, encoding: number): string {
+  return new TextDecoder(encodingFromCodePage(encoding) || 'windows-1252').decode(bytes);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+export interface MobiBook {
+  // Book HTML with filepos links turned into anchors and images into object URLs.
+  html: string;
+  metadata: MobiMetadata;
+  toc: TocEntry[];
+  // Object URLs created for images.
+  resourceUrls: string[];
+}
+
+const FILEPOS_ATTR = /filepos\s*=\s*["']?0*(\d+)["']?/gi;
+const PAGEBREAK = /<mbp:pagebreak\s*\/?>/gi;
+
+const fileposAnchor = (pos: number) => `filepos${pos}`;
+
+/**
+ * Inserts an empty anchor at each byte position. A position that falls
+ * inside a tag is moved to the start of that tag.
+ */
+function insertAnchors(text: Uint8Array, source: string, positions: Set<number>): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  let last = 0;
+  for (const pos of [...positions].filter(p => p >= 0 && p <= text.length).sort((a, b) => a - b)) {
+    let at = pos;
+    if (at > 0) {
+      const open = source.lastIndexOf('<', at - 1);
+      if (open > source.lastIndexOf('>', at - 1)) at = open;
+    }
+    at = Math.max(at, last);
+    chunks.push(text.subarray(last, at), encoder.encode(`<a id="${fileposAnchor(pos)}"></a>`));
+    last = at;
+  }
+  chunks.push(text.subarray(last));
+  return concatBytes(chunks);
+}
+
+export interface NcxEntry {
+  title: string;
+  level: number;
+  // Text position, or -1 when the entry has none.
+  pos: number;
+  // All tags of the entry; KF8 keeps its fragment position in tag 6.
+  tags: Map<number, number[]>;
+}
+
+/**
+ * Reads an NCX index: each entry holds a text position (tag 1), a label in
+ * the CNCX strings (tag 3) and its depth (tag 4).
+ */
+export function readNcx(buffer: ArrayBuffer, recordOffsets: number[], ncxIndex: number): NcxEntry[] {
+  if (ncxIndex === NO_INDEX || ncxIndex >= recordOffsets.length) return [];
+  try {
+    const { entries, cncx } = readIndex(buffer, recordOffsets, ncxIndex);
+    return entries
+      .map(entry => ({
+        title: cncx.get(entry.tags.get(3)?.[0] ?? -1)?.trim() || '',
+        level: entry.tags.get(4)?.[0] ?? 0,
+        pos: entry.tags.get(1)?.[0] ?? -1,
+        tags: entry.tags
+      }))
+      .filter(entry => entry.title);
+  } catch (e) {
+    console.warn("Could not read MOBI NCX index", e);
+    return [];
+  }
+}
+
+const stripTags = (html: string) => html.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+
+/**
+ * Builds a table of contents from the book's own contents page: the one the
+ * guide points at, or else the first page-break section made up of several
+ * filepos links.
+ */
+function readTocFromLinks(text: Uint8Array, source: string, decode: (bytes: Uint8Array) => string): TocEntry[] {
+  const sections: [number, number][] = [];
+  const guide = source.match(/<reference\b[^>]*type\s*=\s*["']?toc["']?[^>]*>/i);
+  const guideTarget = guide && /filepos\s*=\s*["']?0*(\d+)/i.exec(guide[0]);
+  if (guideTarget) {
+    const start = parseInt(guideTarget[1], 10);
+    const end = source.slice(start + 1).search(/<mbp:pagebreak/i);
+    sections.push([start, end < 0 ? source.length : start + 1 + end]);
+  } else {
+    let start = 0;
+    for (const match of source.matchAll(PAGEBREAK)) {
+      sections.push([start, match.index!]);
+      start = match.index! + match[0].length;
+    }
+    sections.push([start, source.length]);
+  }
+
+  const minLinks = guideTarget ? 1 : 3;
+  for (const [from, to] of sections) {
+    const entries = [...decode(text.subarray(from, to)).matchAll(/<a\b[^>]*filepos\s*=\s*["']?0*(\d+)["']?[^>]*>([\s\S]*?)<\/a>/gi)]
+      .map(match => ({ title: stripTags(match[2]), level: 0, href: `#${fileposAnchor(parseInt(match[1], 10))}` }))
+      .filter(entry => entry.title);
+    if (entries.length >= minLinks) return entries;
+  }
+  return [];
+}
+
+export interface ParseOptions {
+  // Set to false to skip creating object URLs for images and fonts.
+  resources?: boolean;
+  // Fraction of text records decoded, the bulk of the parsing time.
+  onProgress?: (fraction: number) => void;
+}
+
+/**
+ * Parses a MOBI6 (or PalmDOC) book. With `resources: false` no object URLs
+ * are created and image references are left unresolved, which is enough for
+ * text extraction.
+ */
+export async function parseMobi(buffer: ArrayBuffer, options: ParseOptions = {}): Promise<MobiBook> {
   const data = new DataView(buffer);
   
   // 1. Parse PDB Header
   const numRecords = data.getUint16(76, false);
   
   // 2. Read Record Offsets
-  const recordOffsets: number[] = [];
-  for (let i = 0; i < numRecords; i++) {
-    const offset = data.getUint32(78 + i * 8, false);
-    recordOffsets.push(offset);
-  }
+  const recordOffsets = getRecordOffsets(buffer);
 
   // 3. Read Record 0 (PalmDOC Header / MOBI Header)
-  const headerOffset = recordOffsets[0];
-  const compression = data.getUint16(headerOffset, false);
-  const textRecordCount = data.getUint16(headerOffset + 8, false);
+  const header = readMobiHeader(buffer, recordOffsets);
 
-  if (textRecordCount > numRecords) {
+  if (header.textRecordCount > numRecords) {
     throw new Error("Invalid MOBI file: text record count exceeds total records.");
   }
 
-  // Collect all raw bytes first (do not decode chunk by chunk to avoid breaking multi-byte chars)
-  let allChunks: Uint8Array[] = [];
-  let totalLength = 0;
+  // 4. Decode Text Records. All raw bytes are collected before decoding so
+  // multibyte characters split across records stay intact.
+  const text = readTextRecords(buffer, recordOffsets, header, 0, options.onProgress);
 
-  // 4. Decode Text Records
-  for (let i = 1; i <= textRecordCount; i++) {
-    if (i >= recordOffsets.length) break;
-    
-    const start = recordOffsets[i];
-    const end = (i + 1 < recordOffsets.length) ? recordOffsets[i + 1] : buffer.byteLength;
-    
-    if (start >= buffer.byteLength || end > buffer.byteLength || end <= start) continue;
-    
-    const chunk = new Uint8Array(buffer.slice(start, end));
-    let decodedChunk: Uint8Array;
-
-    if (compression === 2) {
-      // PalmDOC Compression
-      decodedChunk = decompressPalmDOC(chunk);
-    } else if (compression === 1) {
-      // No Compression
-      decodedChunk = chunk;
-    } else {
-      // Huff/CDIC or others
-      return `<div style="padding:20px; text-align:center; color: red;">
-        <h3>Unsupported Compression</h3>
-        <p>This MOBI file uses Huff/CDIC compression which is not currently supported in this web reader.</p>
-        <p>Please convert it to standard EPUB or TXT.</p>
-      </div>`;
-    }
-    
-    allChunks.push(decodedChunk);
-    totalLength += decodedChunk.length;
+  // Text is decoded with the encoding the MOBI header declares. Plain
+  // PalmDOC files have no MOBI header, so their encoding is detected.
+  const decode = (bytes: Uint8Array) => header.version > 0
+    ? decodeMobiString(bytes, header.textEncoding)
+    : decodeBookContent(bytes.slice().buffer, 'txt');
+
+  // 5. Anchor every filepos link target and NCX position. Positions are byte
+  // offsets into the text, so anchors go in before decoding; a latin1 view
+  // keeps string indexes equal to byte offsets.
+  const source = new TextDecoder('latin1').decode(text);
+  const ncx = readNcx(buffer, recordOffsets, header.ncxIndex).filter(entry => entry.pos >= 0);
+  const positions = new Set<number>(ncx.map(entry => entry.pos));
+  for (const match of source.matchAll(FILEPOS_ATTR)) positions.add(parseInt(match[1], 10));
+
+  let html = decode(insertAnchors(text, source, positions))
+    .replace(FILEPOS_ATTR, (_, pos) => `href="#${fileposAnchor(parseInt(pos, 10))}"`)
+    .replace(PAGEBREAK, '<div class="mobi-pagebreak"></div>');
+
+  // 6. Resolve images: recindex counts from 1 at the first image record.
+  const resourceUrls: string[] = [];
+  if (options.resources !== false && header.firstImageIndex !== NO_INDEX) {
+    const urls = new Map<number, string>();
+    html = html.replace(/<img\b[^>]*>/gi, tag => tag.replace(/\brecindex\s*=\s*["']?(\d+)["']?/i, (attr, value) => {
+      const recordIndex = header.firstImageIndex + parseInt(value, 10) - 1;
+      if (recordIndex >= recordOffsets.length) return attr;
+      let url = urls.get(recordIndex);
+      if (!url) {
+        const record = getRecord(buffer, recordOffsets, recordIndex);
+        url = URL.createObjectURL(new Blob([record], { type: sniffImageType(record) }));
+        urls.set(recordIndex, url);
+        resourceUrls.push(url);
+      }
+      return `src="${url}"`;
+    }));
   }
 
-  // 5. Concatenate all chunks
-  const finalBuffer = new Uint8Array(totalLength);
+  const toc: TocEntry[] = ncx.length > 0
+    ? ncx.map(entry => ({ title: entry.title, level: entry.level, href: `#${fileposAnchor(entry.pos)}` }))
+    : readTocFromLinks(text, source, decode);
+
+  return { html, metadata: readMobiMetadata(header), toc, resourceUrls };
+}
+
+export function releaseMobiBook(book: MobiBook) {
+  book.resourceUrls.forEach(url => URL.revokeObjectURL(url));
+  book.resourceUrls = [];
+}
+
+function concatBytes(chunks: Uint8Array[], totalLength = chunks.reduce((sum, c) => sum + c.length, 0)): Uint8Array {
+  const output = new Uint8Array(totalLength);
   let offset = 0;
-  for (const chunk of allChunks) {
-    finalBuffer.set(chunk, offset);
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
     offset += chunk.length;
   }
+  return output;
+}
 
-  // 6. Decode Text (Handle Encodings: UTF-8 -> GBK -> Latin1)
-  try {
-    // Try strict UTF-8 first
-    return new TextDecoder('utf-8', { fatal: true }).decode(finalBuffer);
-  } catch (e) {
-    try {
-      // Try GBK (Common for Chinese MOBI)
-      return new TextDecoder('gbk', { fatal: true }).decode(finalBuffer);
-    } catch (e2) {
-      // Fallback: Lax UTF-8 (replaces invalid chars)
-      return new TextDecoder('utf-8', { fatal: false }).decode(finalBuffer);
+interface CdicEntry {
+  data: Uint8Array;
+  // Set once the phrase is fully expanded; otherwise it is itself Huffman-coded.
+  expanded: boolean;
+}
+
+/**
+ * Builds a decompressor for HUFF/CDIC text records. The HUFF record holds a
+ * canonical Huffman code table; the CDIC records that follow hold the phrase
+ * dictionary the codes index into. Phrases may themselves be compressed and
+ * are expanded on first use.
+ *
+ * Codes are read from a 64-bit window kept as two 32-bit words. Code bounds
+ * can exceed 2^31, so they are compared as plain numbers rather than with
+ * (signed) bitwise operators.
+ */
+function createHuffCdicDecoder(buffer: ArrayBuffer, recordOffsets: number[], header: MobiHeader): (chunk: Uint8Array) => Uint8Array {
+  if (header.huffRecordCount < 2) throw new Error("Invalid MOBI file: missing HUFF/CDIC records.");
+
+  const huff = getRecord(buffer, recordOffsets, header.huffRecordIndex);
+  if (readAscii(huff, 0, 4) !== 'HUFF') throw new Error("Invalid MOBI file: bad HUFF record.");
+  const huffView = new DataView(huff.buffer, huff.byteOffset, huff.byteLength);
+
+  // Lookup by the top 8 bits of a code: code length, whether that length is
+  // final, and the upper bound for codes of that length.
+  const cacheOffset = huffView.getUint32(8, false);
+  const dict1: { codeLength: number; terminal: boolean; maxCode: number }[] = [];
+  for (let i = 0; i < 256; i++) {
+    const v = huffView.getUint32(cacheOffset + i * 4, false);
+    const codeLength = v & 0x1f;
+    if (codeLength === 0) throw new Error("Invalid MOBI file: bad HUFF code table.");
+    dict1.push({
+      codeLength,
+      terminal: (v & 0x80) !== 0,
+      maxCode: ((v >>> 8) + 1) * 2 ** (32 - codeLength) - 1
+    });
+  }
+
+  // Code bounds for each code length 1..32, used when the top 8 bits are not enough.
+  const baseOffset = huffView.getUint32(12, false);
+  const minCodes: number[] = [0];
+  const maxCodes: number[] = [0];
+  for (let length = 1; length <= 32; length++) {
+    const scale = 2 ** (32 - length);
+    minCodes.push(huffView.getUint32(baseOffset + (length - 1) * 8, false) * scale);
+    maxCodes.push((huffView.getUint32(baseOffset + (length - 1) * 8 + 4, false) + 1) * scale - 1);
+  }
+
+  const dictionary: (CdicEntry | null)[] = [];
+  for (let i = 1; i < header.huffRecordCount; i++) {
+    const cdic = getRecord(buffer, recordOffsets, header.huffRecordIndex + i);
+    if (readAscii(cdic, 0, 4) !== 'CDIC') throw new Error("Invalid MOBI file: bad CDIC record.");
+    const view = new DataView(cdic.buffer, cdic.byteOffset, cdic.byteLength);
+    const headerLength = view.getUint32(4, false);
+    const phraseCount = view.getUint32(8, false);
+    const bits = view.getUint32(12, false);
+    // Every CDIC record but the last holds 2^bits phrases.
+    const count = Math.min(2 ** bits, phraseCount - dictionary.length);
+    for (let j = 0; j < count; j++) {
+      const offset = headerLength + view.getUint16(headerLength + j * 2, false);
+      const flags = view.getUint16(offset, false);
+      dictionary.push({
+        data: cdic.subarray(offset + 2, offset + 2 + (flags & 0x7fff)),
+        expanded: (flags & 0x8000) !== 0
+      });
     }
   }
+
+  const unpack = (input: Uint8Array): Uint8Array => {
+    // Pad so the 64-bit window can always be refilled.
+    const data = new Uint8Array(input.length + 8);
+    data.set(input);
+    const view = new DataView(data.buffer);
+
+    const output: Uint8Array[] = [];
+    let bitsLeft = input.length * 8;
+    let pos = 0;
+    let hi = view.getUint32(0, false);
+    let lo = view.getUint32(4, false);
+    // Number of unread bits in the low end of the window beyond the current code.
+    let n = 32;
+
+    while (true) {
+      if (n <= 0) {
+        pos += 4;
+        hi = lo;
+        lo = view.getUint32(pos + 4, false);
+        n += 32;
+      }
+      // The 32 bits of the window starting n bits from its low end.
+      const code = n === 32 ? hi : ((hi << (32 - n)) | (lo >>> n)) >>> 0;
+
+      let { codeLength, terminal, maxCode } = dict1[code >>> 24];
+      if (!terminal) {
+        while (codeLength < 32 && code < minCodes[codeLength]) codeLength++;
+        maxCode = maxCodes[codeLength];
+      }
+
+      n -= codeLength;
+      bitsLeft -= codeLength;
+      if (bitsLeft < 0) break;
+
+      const index = Math.floor((maxCode - code) / 2 ** (32 - codeLength));
+      const entry = dictionary[index];
+      if (!entry) throw new Error("Invalid MOBI file: corrupt HUFF/CDIC data.");
+      if (!entry.expanded) {
+        // Guard against self-referencing phrases while expanding.
+        dictionary[index] = null;
+        entry.data = unpack(entry.data);
+        entry.expanded = true;
+        dictionary[index] = entry;
+      }
+      output.push(entry.data);
+    }
+
+    return concatBytes(output);
+  };
+
+  return unpack;
 }
 
 /**
  * Decompresses PalmDOC (LZ77 variant) byte arrays into a raw Uint8Array.
+ * A two-byte back reference expands to at most ten bytes, which bounds the
+ * output size.
  */
 function decompressPalmDOC(data: Uint8Array): Uint8Array {
-  const output: number[] = [];
+  const output = new Uint8Array(data.length * 5);
+  let length = 0;
   let p = 0;
   
   while (p < data.length) {
@@ -97,31 +675,31 @@ function decompressPalmDOC(data: Uint8Array): Uint8Array {
     if (byte >= 0x01 && byte <= 0x08) {
       // Copy next 'byte' bytes literally
       for (let i = 0; i < byte; i++) {
-        if (p < data.length) output.push(data[p++]);
+        if (p < data.length) output[length++] = data[p++];
       }
     } else if (byte < 0x80) {
       // Literal character (0x00..0x7F)
-      output.push(byte);
+      output[length++] = byte;
     } else if (byte >= 0xC0) {
       // Space + character pair
-      output.push(32); // ' '
-      output.push(byte ^ 0x80);
+      output[length++] = 32; // ' '
+      output[length++] = byte ^ 0x80;
     } else {
       // LZ77 Distance/Length pair
       if (p >= data.length) break;
       const nextByte = data[p++];
       
       const distance = ((byte & 0x3F) << 5) | (nextByte >> 3);
-      const length = (nextByte & 0x07) + 3;
+      const count = (nextByte & 0x07) + 3;
       
-      let src = output.length - distance;
-      for (let i = 0; i < length; i++) {
-        if (src + i >= 0 && src + i < output.length) {
-          output.push(output[src + i]);
-        }
+      // Byte by byte, since the source may overlap the bytes being written.
+      const src = length - distance;
+      if (distance === 0) continue;
+      for (let i = 0; i < count; i++) {
+        if (src + i >= 0) output[length++] = output[src + i];
       }
     }
   }
   
-  return new Uint8Array(output);
+  return output.subarray(0, length);
 }
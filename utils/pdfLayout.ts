@@ -0,0 +1,250 @@
+/**
+ * Rebuilds readable text from pdf.js text items. Items are grouped into
+ * lines by their baseline, two-column pages are read column by column,
+ * lines are joined into paragraphs (rejoining hyphenated words and keeping
+ * CJK text free of spurious spaces), and running headers, footers and page
+ * numbers are dropped.
+ */
+
+// Shape of the text items returned by pdf.js `getTextContent`.
+export interface PdfTextItem {
+  str: string;
+  // [scaleX, skewY, skewX, scaleY, x, y] in PDF user space.
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+interface Item {
+  text: string;
+  x: number;
+  right: number;
+  y: number;
+  size: number;
+}
+
+interface Line extends Item {
+  // Lines of one block (full width or one column) form paragraphs together.
+  block: number;
+}
+
+export interface PageLayout {
+  // In reading order.
+  lines: Line[];
+  // The topmost and bottommost lines, where running heads and folios sit.
+  edges: Set<Line>;
+}
+
+const CJK = /[\u2e80-\u2fff\u3000-\u303f\u3040-\u30ff\u3100-\u31ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+const isCjk = (char: string | undefined) => !!char && CJK.test(char);
+
+// Lines that end like this close a paragraph when they also end short.
+const SENTENCE_END = /[.!?:;。！？：；…”"’'»」』)）]$/;
+
+const PAGE_NUMBER = /^[\s\-–—|•·]*((page|p\.|pg\.?)\s*)?(\d{1,4}|[ivxlcdm]{1,7})(\s*(of|\/)\s*\d{1,4})?[\s\-–—|•·]*$/i;
+const CJK_PAGE_NUMBER = /^第?\s*\d{1,4}\s*页(\s*[/／]?\s*共\s*\d{1,4}\s*页)?$/;
+
+const EDGE_LINES = 2;
+const SAMPLE_PAGES = 12;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const toItems = (items: PdfTextItem[]): Item[] =>
+  items
+    .filter(item => typeof item.str === 'string' && item.str.trim())
+    .map(item => {
+      const [a, b, c, d, x, y] = item.transform;
+      const size = Math.hypot(c, d) || item.height || Math.hypot(a, b) || 10;
+      return { text: item.str, x, right: x + item.width, y, size };
+    });
+
+/**
+ * Joins two pieces of text on one line or across lines: no space between CJK
+ * characters, a hyphenated word split at a line end is rejoined.
+ */
+const joinText = (left: string, right: string, spaced: boolean): string => {
+  if (!left) return right;
+  const last = left[left.length - 1];
+  const first = right[0];
+  if (/[A-Za-z]-$/.test(left) && /^[a-z]/.test(right)) return left.slice(0, -1) + right;
+  if (last === '\u00ad') return left.slice(0, -1) + right;
+  if (!spaced || /\s$/.test(left) || /^\s/.test(right) || (isCjk(last) && isCjk(first))) return left + right;
+  return left + ' ' + right;
+};
+
+const buildLine = (items: Item[], block: number): Line => {
+  const sorted = [...items].sort((a, b) => a.x - b.x);
+  let text = '';
+  let right = -Infinity;
+  for (const item of sorted) {
+    // Gaps narrower than a fraction of the font size are kerning, not spaces.
+    const gap = item.x - right;
+    text = text ? joinText(text, item.text, gap > item.size * 0.15) : item.text;
+    right = Math.max(right, item.right);
+  }
+  return {
+    text: text.replace(/\s+/g, ' ').trim(),
+    x: sorted[0].x,
+    right,
+    y: median(sorted.map(item => item.y)),
+    size: median(sorted.map(item => item.size)),
+    block
+  };
+};
+
+// Items whose baselines lie within half a font size share a line.
+const groupLines = (items: Item[], block: number): Line[] => {
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const groups: Item[][] = [];
+  for (const item of sorted) {
+    const group = groups[groups.length - 1];
+    if (group && Math.abs(group[0].y - item.y) <= Math.min(group[0].size, item.size) * 0.5) group.push(item);
+    else groups.push([item]);
+  }
+  return groups.map(group => buildLine(group, block)).filter(line => line.text);
+};
+
+/**
+ * Looks for an empty vertical band near the middle of the page that splits
+ * the text into two substantial columns. Items wider than the band would
+ * allow (titles, full-width captions) are ignored while looking.
+ */
+const findGutter = (items: Item[], left: number, right: number): number | null => {
+  const width = right - left;
+  if (width <= 0 || items.length < 20) return null;
+
+  const bins = 100;
+  const coverage = new Array<number>(bins).fill(0);
+  for (const item of items) {
+    if (item.right - item.x > width * 0.45) continue;
+    const from = Math.max(0, Math.floor(((item.x - left) / width) * bins));
+    const to = Math.min(bins - 1, Math.ceil(((item.right - left) / width) * bins) - 1);
+    for (let b = from; b <= to; b++) coverage[b]++;
+  }
+
+  let best = { start: 0, length: 0 };
+  let start = -1;
+  for (let b = 30; b <= 70; b++) {
+    if (coverage[b] === 0) {
+      if (start < 0) start = b;
+      if (b - start + 1 > best.length) best = { start, length: b - start + 1 };
+    } else {
+      start = -1;
+    }
+  }
+  if (best.length === 0) return null;
+
+  const gutter = left + ((best.start + best.length / 2) / bins) * width;
+  const leftCount = items.filter(item => item.right <= gutter).length;
+  const rightCount = items.filter(item => item.x >= gutter).length;
+  return leftCount >= items.length * 0.2 && rightCount >= items.length * 0.2 ? gutter : null;
+};
+
+/**
+ * Lays out one page. `view` is the page box `[x0, y0, x1, y1]` from pdf.js.
+ */
+export const layoutPage = (rawItems: PdfTextItem[], view: number[]): PageLayout => {
+  const items = toItems(rawItems);
+  const gutter = findGutter(items, view[0], view[2]);
+
+  let lines: Line[];
+  if (gutter === null) {
+    lines = groupLines(items, 0);
+  } else {
+    // Full-width items above the columns come first, the rest after them.
+    const leftColumn = items.filter(item => item.right <= gutter);
+    const rightColumn = items.filter(item => item.x >= gutter);
+    const spanning = items.filter(item => item.right > gutter && item.x < gutter);
+    const columnTop = Math.max(...leftColumn.concat(rightColumn).map(item => item.y));
+    lines = [
+      ...groupLines(spanning.filter(item => item.y > columnTop), 0),
+      ...groupLines(leftColumn, 1),
+      ...groupLines(rightColumn, 2),
+      ...groupLines(spanning.filter(item => item.y <= columnTop), 3)
+    ];
+  }
+
+  const byHeight = [...lines].sort((a, b) => b.y - a.y);
+  const edges = new Set([...byHeight.slice(0, EDGE_LINES), ...byHeight.slice(-EDGE_LINES)]);
+  return { lines, edges };
+};
+
+// Running heads differ between pages only in their numbers.
+const runningKey = (text: string) => text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+
+const isPageNumber = (text: string) => PAGE_NUMBER.test(text) || CJK_PAGE_NUMBER.test(text);
+
+/**
+ * Finds edge lines that repeat across the sampled pages: running heads and
+ * footers. Lines on alternating pages still reach the threshold.
+ */
+export const findRunningLines = (layouts: PageLayout[]): Set<string> => {
+  const counts = new Map<string, number>();
+  for (const layout of layouts) {
+    const keys = new Set([...layout.edges].map(line => runningKey(line.text)));
+    keys.forEach(key => counts.set(key, (counts.get(key) || 0) + 1));
+  }
+  const threshold = Math.max(3, Math.ceil(layouts.length * 0.4));
+  return new Set([...counts].filter(([key, count]) => key && count >= threshold).map(([key]) => key));
+};
+
+/**
+ * Page numbers to sample when looking for running heads, spread across the
+ * document.
+ */
+export const samplePageNumbers = (numPages: number): number[] => {
+  const count = Math.min(numPages, SAMPLE_PAGES);
+  return Array.from(new Set(Array.from({ length: count }, (_, i) => 1 + Math.floor((i * numPages) / count))));
+};
+
+/**
+ * Text of a laid-out page, one paragraph per line. Lines join into a
+ * paragraph unless the vertical gap is clearly larger than the usual line
+ * spacing, or the previous line ends a sentence well short of the margin.
+ */
+export const pageText = (layout: PageLayout, runningLines: Set<string>): string => {
+  const lines = layout.lines.filter(line =>
+    !(layout.edges.has(line) && (isPageNumber(line.text) || runningLines.has(runningKey(line.text)))));
+
+  const blockRight = new Map<number, number>();
+  const gaps: number[] = [];
+  lines.forEach((line, i) => {
+    blockRight.set(line.block, Math.max(blockRight.get(line.block) ?? -Infinity, line.right));
+    const prev = lines[i - 1];
+    if (prev && prev.block === line.block && prev.y > line.y) gaps.push(prev.y - line.y);
+  });
+  const spacing = median(gaps);
+
+  const paragraphs: string[] = [];
+  let current = '';
+  lines.forEach((line, i) => {
+    const prev = lines[i - 1];
+    const breaks = !prev
+      || prev.block !== line.block
+      || (spacing > 0 && prev.y - line.y > spacing * 1.4)
+      || prev.y < line.y
+      || (SENTENCE_END.test(prev.text) && prev.right < blockRight.get(line.block)! - line.size * 2);
+    if (breaks) {
+      if (current) paragraphs.push(current);
+      current = line.text;
+    } else {
+      current = joinText(current, line.text, true);
+    }
+  });
+  if (current) paragraphs.push(current);
+  return paragraphs.join('\n');
+};
+
+/**
+ * Joins consecutive page texts, rejoining a word hyphenated across pages.
+ */
+export const joinPages = (pages: string[]): string =>
+  pages.filter(Boolean).reduce((text, page) => {
+    if (!text) return page;
+    if (/[A-Za-z]-$/.test(text) && /^[a-z]/.test(page)) return text.slice(0, -1) + page;
+    return text + '\n' + page;
+  }, '');
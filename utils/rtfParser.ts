@@ -0,0 +1,475 @@
+/**
+ * RTF reader. Tokenizes the document into control words, groups and text,
+ * decodes `\'hh` bytes with the code page of the current font (or
+ * `\ansicpg`) and `\uN` escapes as UTF-16, and keeps paragraphs with bold,
+ * italic, underline and heading levels. Destinations that hold no body text
+ * (font table, stylesheet, pictures, fields instructions...) are skipped.
+ */
+
+import { encodingFromCodePage } from './encoding';
+import { TocEntry } from '../types';
+
+export interface RtfRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+export interface RtfParagraph {
+  runs: RtfRun[];
+  // 1-6 for headings, from the paragraph style or its outline level.
+  heading?: number;
+}
+
+export interface RtfDocument {
+  paragraphs: RtfParagraph[];
+  // From the {\info} group.
+  title?: string;
+  author?: string;
+  subject?: string;
+}
+
+// \fcharsetN values mapped to the code page they imply.
+const CHARSET_CODE_PAGES: Record<number, number> = {
+  77: 10000,
+  128: 932,
+  129: 949,
+  134: 936,
+  136: 950,
+  161: 1253,
+  162: 1254,
+  163: 1258,
+  177: 1255,
+  178: 1256,
+  186: 1257,
+  204: 1251,
+  222: 874,
+  238: 1250
+};
+
+// Destinations whose content is never body text.
+const SKIPPED_DESTINATIONS = new Set([
+  'colortbl', 'pict', 'object', 'objdata', 'fldinst', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'footnote', 'annotation', 'listtable', 'listoverridetable',
+  'rsidtbl', 'revtbl', 'filetbl', 'generator', 'xmlnstbl', 'themedata', 'colorschememapping',
+  'datastore', 'latentstyles', 'pgdsctbl', 'shpinst', 'nonshppict', 'private', 'bkmkstart', 'bkmkend'
+]);
+
+const INFO_FIELDS = new Set(['title', 'author', 'subject']);
+
+// Control words that stand for a single character.
+const SYMBOLS: Record<string, string> = {
+  tab: '\t', emdash: '\u2014', endash: '\u2013', emspace: '\u2003', enspace: '\u2002', qmspace: '\u2005',
+  bullet: '\u2022', lquote: '\u2018', rquote: '\u2019', ldblquote: '\u201c', rdblquote: '\u201d',
+  cell: '\t', zwj: '\u200d', zwnj: '\u200c'
+};
+
+type Destination = 'text' | 'skip' | 'fonttbl' | 'stylesheet' | 'info' | 'title' | 'author' | 'subject';
+
+interface GroupState {
+  destination: Destination;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  hidden: boolean;
+  font: number;
+  // Fallback characters that follow each \uN.
+  uc: number;
+  style: number;
+  outlineLevel?: number;
+}
+
+const decoders = new Map<string, TextDecoder>();
+
+const decodeBytes = (bytes: number[], codePage: number): string => {
+  const label = encodingFromCodePage(codePage) || 'windows-1252';
+  let decoder = decoders.get(label);
+  if (!decoder) {
+    decoder = new TextDecoder(label);
+    decoders.set(label, decoder);
+  }
+  return decoder.decode(new Uint8Array(bytes));
+};
+
+const headingFromStyleName = (name: string): number | undefined => {
+  const match = name.trim().match(/^(heading|标题|標題)\s*(\d)/i);
+  return match ? Math.min(6, Math.max(1, parseInt(match[2], 10))) : undefined;
+};
+
+/**
+ * Parses an RTF document. `source` is the file decoded as text; raw 8-bit
+ * characters were already decoded with the file's encoding, so only `\'hh`
+ * escapes are decoded here.
+ */
+export const parseRtf = (source: string): RtfDocument => {
+  const doc: RtfDocument = { paragraphs: [] };
+  const fontCodePages = new Map<number, number>();
+  const styleHeadings = new Map<number, number>();
+  let defaultCodePage = 1252;
+  let defaultFont = -1;
+
+  let state: GroupState = {
+    destination: 'text', bold: false, italic: false, underline: false, hidden: false, font: -1, uc: 1, style: 0
+  };
+  const stack: GroupState[] = [];
+
+  let runs: RtfRun[] = [];
+  let pendingBytes: number[] = [];
+  let skipFallback = 0;
+  // Font table and stylesheet entries being read.
+  let fontEntry = -1;
+  let styleEntry = { number: 0, name: '', outlineLevel: undefined as number | undefined, isParagraph: true };
+  // Group depth of the stylesheet; its direct children are style entries.
+  let stylesheetDepth = -1;
+  let infoText = '';
+
+  const codePage = () => {
+    const font = state.font >= 0 ? state.font : defaultFont;
+    return fontCodePages.get(font) ?? defaultCodePage;
+  };
+
+  const appendText = (text: string) => {
+    if (!text) return;
+    switch (state.destination) {
+      case 'text': {
+        if (state.hidden) return;
+        const last = runs[runs.length - 1];
+        if (last && !!last.bold === state.bold && !!last.italic === state.italic && !!last.underline === state.underline) {
+          last.text += text;
+        } else {
+          const run: RtfRun = { text };
+          if (state.bold) run.bold = true;
+          if (state.italic) run.italic = true;
+          if (state.underline) run.underline = true;
+          runs.push(run);
+        }
+        break;
+      }
+      case 'stylesheet':
+        styleEntry.name += text;
+        break;
+      case 'title':
+      case 'author':
+      case 'subject':
+        infoText += text;
+        break;
+    }
+  };
+
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) return;
+    const bytes = pendingBytes;
+    pendingBytes = [];
+    appendText(decodeBytes(bytes, codePage()));
+  };
+
+  // Fallback characters after \uN are skipped one token at a time.
+  const consumeFallback = (): boolean => {
+    if (skipFallback <= 0) return false;
+    skipFallback--;
+    return true;
+  };
+
+  const endParagraph = () => {
+    flushBytes();
+    if (state.destination !== 'text') return;
+    const heading = state.outlineLevel !== undefined
+      ? (state.outlineLevel < 9 ? Math.min(6, state.outlineLevel + 1) : undefined)
+      : styleHeadings.get(state.style);
+    const paragraph: RtfParagraph = { runs };
+    if (heading && runs.some(run => run.text.trim())) paragraph.heading = heading;
+    doc.paragraphs.push(paragraph);
+    runs = [];
+  };
+
+  const endStyleEntry = () => {
+    if (!styleEntry.isParagraph) return;
+    const name = styleEntry.name.replace(/;\s*$/, '');
+    const heading = headingFromStyleName(name)
+      ?? (styleEntry.outlineLevel !== undefined && styleEntry.outlineLevel < 9 ? Math.min(6, styleEntry.outlineLevel + 1) : undefined);
+    if (heading) styleHeadings.set(styleEntry.number, heading);
+  };
+
+  const controlWord = (word: string, param: number | undefined, groupStart: boolean) => {
+    const on = param === undefined || param !== 0;
+
+    if (groupStart) {
+      if (word === 'fonttbl' || word === 'stylesheet' || word === 'info') {
+        state.destination = word;
+        if (word === 'stylesheet') stylesheetDepth = stack.length;
+        return;
+      }
+      if (state.destination === 'info' && INFO_FIELDS.has(word)) {
+        state.destination = word as Destination;
+        infoText = '';
+        return;
+      }
+      if (SKIPPED_DESTINATIONS.has(word)) {
+        state.destination = 'skip';
+        return;
+      }
+    }
+    if (state.destination === 'skip') return;
+
+    if (state.destination === 'fonttbl') {
+      if (word === 'f' && param !== undefined) fontEntry = param;
+      else if (word === 'fcharset' && param !== undefined && CHARSET_CODE_PAGES[param]) fontCodePages.set(fontEntry, CHARSET_CODE_PAGES[param]);
+      else if (word === 'cpg' && param !== undefined && encodingFromCodePage(param)) fontCodePages.set(fontEntry, param);
+      return;
+    }
+    if (state.destination === 'stylesheet') {
+      if (word === 's' && param !== undefined) styleEntry.number = param;
+      else if (word === 'cs' || word === 'ds' || word === 'ts') styleEntry.isParagraph = false;
+      else if (word === 'outlinelevel' && param !== undefined) styleEntry.outlineLevel = param;
+      return;
+    }
+
+    switch (word) {
+      case 'ansicpg':
+        if (param !== undefined && encodingFromCodePage(param)) defaultCodePage = param;
+        return;
+      case 'mac':
+        defaultCodePage = 10000;
+        return;
+      case 'deff':
+        if (param !== undefined) defaultFont = param;
+        return;
+      case 'uc':
+        if (param !== undefined) state.uc = Math.max(0, param);
+        return;
+      case 'u':
+        if (param === undefined) return;
+        flushBytes();
+        appendText(String.fromCharCode(param < 0 ? param + 65536 : param));
+        skipFallback = state.uc;
+        return;
+    }
+
+    flushBytes();
+    if (SYMBOLS[word] !== undefined) {
+      if (!consumeFallback()) appendText(SYMBOLS[word]);
+      return;
+    }
+
+    switch (word) {
+      case 'par':
+      case 'sect':
+      case 'page':
+      case 'row':
+        endParagraph();
+        break;
+      case 'line':
+        appendText('\n');
+        break;
+      case 'pard':
+        state.style = 0;
+        state.outlineLevel = undefined;
+        break;
+      case 'plain':
+        state.bold = state.italic = state.underline = state.hidden = false;
+        state.font = defaultFont;
+        break;
+      case 'b':
+        state.bold = on;
+        break;
+      case 'i':
+        state.italic = on;
+        break;
+      case 'ul':
+        state.underline = on;
+        break;
+      case 'ulnone':
+        state.underline = false;
+        break;
+      case 'v':
+        state.hidden = on;
+        break;
+      case 'f':
+        if (param !== undefined) state.font = param;
+        break;
+      case 's':
+        if (param !== undefined) state.style = param;
+        break;
+      case 'outlinelevel':
+        if (param !== undefined) state.outlineLevel = param;
+        break;
+    }
+  };
+
+  const endGroup = () => {
+    flushBytes();
+    const closing = state;
+    state = stack.pop() || state;
+    if (closing.destination === 'stylesheet' && stack.length === stylesheetDepth) endStyleEntry();
+    if (closing.destination !== state.destination && (closing.destination === 'title' || closing.destination === 'author' || closing.destination === 'subject')) {
+      const value = infoText.replace(/\s+/g, ' ').trim();
+      if (value) doc[closing.destination] = value;
+    }
+  };
+
+  let groupStart = false;
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === '{') {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      if (state.destination === 'stylesheet' && stack.length === stylesheetDepth + 1) {
+        styleEntry = { number: 0, name: '', outlineLevel: undefined, isParagraph: true };
+      }
+      groupStart = true;
+      i++;
+      continue;
+    }
+    if (ch === '}') {
+      endGroup();
+      groupStart = false;
+      i++;
+      continue;
+    }
+    if (ch === '\r' || ch === '\n') {
+      i++;
+      continue;
+    }
+
+    if (ch !== '\\') {
+      groupStart = false;
+      flushBytes();
+      if (consumeFallback()) {
+        i++;
+        continue;
+      }
+      // Read a run of plain text at once.
+      let end = i + 1;
+      while (end < source.length && !'\\{}\r\n'.includes(source[end]) && skipFallback === 0) end++;
+      appendText(source.substring(i, end));
+      i = end;
+      continue;
+    }
+
+    // Backslash: control word or control symbol.
+    const next = source[i + 1];
+    if (next === undefined) break;
+
+    if (/[a-zA-Z]/.test(next)) {
+      let end = i + 1;
+      while (end < source.length && /[a-zA-Z]/.test(source[end])) end++;
+      const word = source.substring(i + 1, end);
+      let paramEnd = end;
+      if (source[paramEnd] === '-') paramEnd++;
+      while (paramEnd < source.length && source[paramEnd] >= '0' && source[paramEnd] <= '9') paramEnd++;
+      const paramText = source.substring(end, paramEnd);
+      const param = /\d/.test(paramText) ? parseInt(paramText, 10) : undefined;
+      i = source[paramEnd] === ' ' ? paramEnd + 1 : paramEnd;
+
+      if (word === 'bin' && param !== undefined) {
+        // Raw binary data follows; it is never text.
+        i += param;
+      } else if (word !== 'u' && consumeFallback()) {
+        // A control word counts as one fallback character.
+      } else {
+        controlWord(word, param, groupStart);
+      }
+      groupStart = false;
+      continue;
+    }
+
+    if (next === "'") {
+      const byte = parseInt(source.substring(i + 2, i + 4), 16);
+      i += 4;
+      groupStart = false;
+      if (consumeFallback() || Number.isNaN(byte) || state.destination === 'skip') continue;
+      pendingBytes.push(byte);
+      continue;
+    }
+
+    i += 2;
+    if (next === '*') {
+      // {\*\destination ...} marks destinations a reader may ignore.
+      if (groupStart) state.destination = 'skip';
+      continue;
+    }
+    groupStart = false;
+    if (state.destination === 'skip') continue;
+    flushBytes();
+    if (consumeFallback()) continue;
+    switch (next) {
+      case '\\':
+      case '{':
+      case '}':
+        appendText(next);
+        break;
+      case '~':
+        appendText('\u00a0');
+        break;
+      case '_':
+        appendText('\u2011');
+        break;
+      case '\r':
+      case '\n':
+        endParagraph();
+        break;
+      // \- (optional hyphen) and \: (index subentry) produce nothing.
+    }
+  }
+
+  flushBytes();
+  if (runs.some(run => run.text.trim())) endParagraph();
+  return doc;
+};
+
+export const paragraphText = (paragraph: RtfParagraph): string =>
+  paragraph.runs.map(run => run.text).join('');
+
+/**
+ * Plain text of a parsed document, one line per paragraph.
+ */
+export const rtfToText = (doc: RtfDocument): string =>
+  doc.paragraphs.map(paragraphText).join('\n').replace(/\n{3,}/g, '\n\n').trim();
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Element id of a rendered paragraph, by its index in `paragraphs`.
+export const rtfParagraphId = (index: number) => `rtf-p-${index}`;
+
+/**
+ * Contents entries for the heading paragraphs, levelled from the topmost
+ * heading style in use.
+ */
+export const rtfToc = (doc: RtfDocument): TocEntry[] => {
+  const headings = doc.paragraphs
+    .map((paragraph, index) => ({ paragraph, index, title: paragraphText(paragraph).replace(/\s+/g, ' ').trim() }))
+    .filter(({ paragraph, title }) => paragraph.heading && title);
+  const topLevel = Math.min(...headings.map(({ paragraph }) => paragraph.heading!));
+  return headings.map(({ paragraph, index, title }) => ({
+    title,
+    level: paragraph.heading! - topLevel,
+    href: `#${rtfParagraphId(index)}`
+  }));
+};
+
+/**
+ * Renders a parsed document as HTML: headings as <h1>-<h6>, other
+ * paragraphs as <p>, with bold, italic and underline runs. Every element
+ * carries its `rtfParagraphId`.
+ */
+export const rtfToHtml = (doc: RtfDocument): string =>
+  doc.paragraphs
+    .map((paragraph, index) => ({ paragraph, index }))
+    .filter(({ paragraph }) => paragraphText(paragraph).trim())
+    .map(({ paragraph, index }) => {
+      const tag = paragraph.heading ? `h${paragraph.heading}` : 'p';
+      const body = paragraph.runs.map(run => {
+        let html = escapeHtml(run.text).replace(/\n/g, '<br/>');
+        if (run.underline) html = `<u>${html}</u>`;
+        if (run.italic) html = `<em>${html}</em>`;
+        if (run.bold) html = `<strong>${html}</strong>`;
+        return html;
+      }).join('');
+      return `<${tag} id="${rtfParagraphId(index)}">${body}</${tag}>`;
+    })
+    .join('\n');
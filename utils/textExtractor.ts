@@ -1,50 +1,144 @@
-
-import { Book } from '../types';
+import { Book, BookContent, Chapter, ChapterLocator } from '../types';
 import { parseMobi } from './mobiParser';
+import { parseKf8, isKf8 } from './kf8Parser';
+import { decodeBookContent } from './encoding';
+import { parseRtf, paragraphText, rtfToText, RtfDocument } from './rtfParser';
+import { layoutPage, findRunningLines, samplePageNumbers, pageText, joinPages, PageLayout } from './pdfLayout';
+import { PROTECTION_MESSAGES } from './drm';
+
+export interface TextSection extends Chapter {
+  // Zero-based position of the chapter and the number of chapters in the book.
+  index: number;
+  total: number;
+  // Set when the chapter, or part of it, could not be read.
+  error?: string;
+}
+
+export interface ExtractOptions {
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+// Joins chapter texts into the book's plain text; text locators count into it.
+export const CHAPTER_SEPARATOR = "\n\n";
+
+// Stored with cached extractions. Bump whenever a change here or in the
+// format parsers alters the chapters produced, so stale caches are rebuilt.
+export const EXTRACTOR_VERSION = 1;
+
+// A chapter before locators and progress are filled in.
+type ChapterDraft = Omit<Chapter, 'locator'> & { error?: string };
+
+const toArrayBuffer = (content: BookContent): ArrayBuffer =>
+  typeof content === 'string' ? new TextEncoder().encode(content).buffer : content.slice(0);
+
+// Lets React paint progress between chapters of synchronous formats.
+const nextTask = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+// Longest stretch of PDF page layout run before yielding to the event loop.
+const PDF_SLICE_MS = 16;
+
+/**
+ * Streams a whole book chapter by chapter, with titles, nesting and a locator
+ * back into the source: EPUB spine items named from the navigation, PDF
+ * outline ranges (or single pages), FB2 sections, MOBI NCX entries and
+ * headings found in plain text. Chapters that fail to load are yielded with
+ * an `error` instead of being dropped. Stops with an AbortError once
+ * `signal` is aborted. Formats read in steps (PDF pages) report
+ * `onProgress` within a chapter as they go.
+ */
+export async function* extractBookSections(
+  book: Book,
+  content: BookContent,
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+): AsyncGenerator<TextSection> {
+  if (book.protection) throw new Error(PROTECTION_MESSAGES[book.protection].title);
+  signal?.throwIfAborted();
+
+  let sections: AsyncIterable<TextSection> | Iterable<TextSection>;
+  switch (book.format) {
+    case 'epub':
+      sections = epubSections(content);
+      break;
+    case 'pdf':
+      sections = pdfSections(content, book.title, signal, onProgress);
+      break;
+    case 'fb2':
+      sections = withTextLocators(fb2Chapters(decodeBookContent(content, 'fb2', book.encoding), book.title));
+      break;
+    case 'rtf':
+      sections = withTextLocators(rtfChapters(parseRtf(decodeBookContent(content, 'rtf', book.encoding)), book.title));
+      break;
+    case 'txt':
+      sections = withTextLocators(splitPlainText(decodeBookContent(content, 'txt', book.encoding), book.title));
+      break;
+    case 'mobi':
+    case 'azw3':
+      sections = withTextLocators(await mobiChapters(book, toArrayBuffer(content)));
+      break;
+    default:
+      throw new Error("Unsupported format for text extraction");
+  }
+
+  for await (const section of sections) {
+    signal?.throwIfAborted();
+    yield section;
+    await nextTask();
+  }
+}
+
+/**
+ * Collects the readable chapters of a book.
+ */
+export const extractChapters = async (book: Book, content: BookContent, options: ExtractOptions = {}): Promise<Chapter[]> => {
+  const chapters: Chapter[] = [];
+  for await (const { index, total, error, ...chapter } of extractBookSections(book, content, options.signal, options.onProgress)) {
+    if (error) console.warn(`[Extract] ${book.title}: ${error}`);
+    chapters.push(chapter);
+    options.onProgress?.((index + 1) / total);
+  }
+  return chapters;
+};
 
 /**
  * Extracts raw text content from a Book object.
- * Used for AI analysis and format conversion.
+ * Used for AI analysis and format conversion. With a `limit` (e.g. for an AI
+ * context window) extraction stops as soon as enough text has been read.
  */
-export const extractBookText = async (book: Book, limit?: number): Promise<string> => {
+export const extractBookText = async (book: Book, content: BookContent, limit?: number, options: ExtractOptions = {}): Promise<string> => {
+  if (book.protection) throw new Error(PROTECTION_MESSAGES[book.protection].title);
+  return joinSections(extractBookSections(book, content, options.signal, options.onProgress), limit, options.onProgress);
+};
+
+/**
+ * Joins streamed chapters into plain text, reading no further than `limit`
+ * characters. Chapters that could not be read leave a visible marker in the
+ * text, and a failure part way keeps what was read before it with a marker
+ * at the end. Cancellation, or a failure before any text was read, rethrows.
+ */
+export const joinSections = async (
+  sections: AsyncIterable<TextSection>,
+  limit?: number,
+  onProgress?: (fraction: number) => void
+): Promise<string> => {
   let fullText = "";
+  const append = (text: string) => { fullText += (fullText ? CHAPTER_SEPARATOR : "") + text; };
 
   try {
-    switch (book.format) {
-      case 'epub':
-        fullText = await extractFromEpub(book.content);
-        break;
-      case 'pdf':
-        fullText = await extractFromPdf(book.content);
-        break;
-      case 'fb2':
-        fullText = extractFromFb2(book.content);
-        break;
-      case 'rtf':
-        fullText = extractFromRtf(book.content);
-        break;
-      case 'txt':
-        fullText = typeof book.content === 'string' 
-          ? book.content 
-          : new TextDecoder().decode(book.content as ArrayBuffer);
-        break;
-      case 'mobi':
-      case 'azw3':
-        const buffer = book.content instanceof ArrayBuffer 
-             ? book.content 
-             : new TextEncoder().encode(book.content as string).buffer;
-        const mobiHtml = await parseMobi(buffer);
-        fullText = mobiHtml.replace(/<[^>]+>/g, "\n").replace(/\n\s*\n/g, "\n\n").trim();
-        break;
-      default:
-        throw new Error("Unsupported format for text extraction");
+    for await (const section of sections) {
+      if (section.text) append(section.text);
+      if (section.error) append(`[Not extracted: ${section.error}]`);
+      onProgress?.((section.index + 1) / section.total);
+      if (limit && fullText.length > limit) break;
     }
-  } catch (e) {
+  } catch (e: any) {
+    if (e?.name === 'AbortError' || !fullText) throw e;
     console.error("Text extraction failed", e);
-    return "";
+    append(`[Extraction stopped: ${e?.message || 'the rest of the book could not be read'}]`);
   }
 
-  // If a limit is set (e.g. for AI context window), truncate
+  // If a limit is set, truncate
   if (limit && fullText.length > limit) {
     return fullText.substring(0, limit) + "... [Content Truncated]";
   }
@@ -54,99 +148,375 @@ export const extractBookText = async (book: Book, limit?: number): Promise<strin
 
 // --- Internal Helpers ---
 
-const extractFromEpub = async (content: ArrayBuffer | string): Promise<string> => {
-  return new Promise(async (resolve, reject) => {
-    try {
-      const bookData = typeof content === 'string' 
-        ? (new TextEncoder().encode(content)).buffer 
-        : content.slice(0);
-
-      // @ts-ignore
-      const book = window.ePub(bookData);
-      await book.ready;
-
-      let textAccumulator = "";
-      
-      // @ts-ignore
-      const spineItems = book.spine.items;
-      
-      // Limit processing to first 20 chapters to prevent browser freeze on huge books if not converting
-      const limit = Math.min(spineItems.length, 50);
-
-      for (let i = 0; i < limit; i++) {
-        const item = spineItems[i];
-        if (item && item.href) {
-           try {
-               const doc = await book.load(item.href);
-               if (doc) {
-                 let text = "";
-                 if (typeof doc === 'string') {
-                     const parser = new DOMParser();
-                     const htmlDoc = parser.parseFromString(doc, "text/html");
-                     text = htmlDoc.body.innerText || "";
-                 } else if (doc.body) {
-                     text = doc.body.innerText || "";
-                 }
-                 textAccumulator += text.trim() + "\n\n";
-               }
-           } catch (err) {
-               console.warn(`Skipping chapter ${i}`, err);
-           }
-        }
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[name.toLowerCase()] ?? match;
+  });
+
+const htmlToText = (html: string): string =>
+  decodeEntities(html.replace(/<[^>]+>/g, "\n")).replace(/\n\s*\n/g, "\n\n").trim();
+
+const cleanTitle = (title: string) => title.replace(/\s+/g, ' ').trim().substring(0, 200);
+
+// First heading of an HTML fragment, for chapters without a TOC entry.
+const htmlHeading = (html: string): string | undefined => {
+  const match = html.match(/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/i) || html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const title = match ? cleanTitle(decodeEntities(match[match.length - 1].replace(/<[^>]+>/g, ''))) : '';
+  return title || undefined;
+};
+
+/**
+ * Assigns text locators: each chapter's character offset in the texts joined
+ * with CHAPTER_SEPARATOR, the same string `extractBookText` returns.
+ */
+const withTextLocators = (drafts: ChapterDraft[]): TextSection[] => {
+  let offset = 0;
+  return drafts.map((draft, index) => {
+    const locator: ChapterLocator = { type: 'text', offset };
+    if (draft.text) offset += draft.text.length + CHAPTER_SEPARATOR.length;
+    return { ...draft, locator, index, total: drafts.length };
+  });
+};
+
+interface NavEntry { title: string; level: number; path: string }
+
+const safeDecodeURI = (uri: string) => {
+  try { return decodeURI(uri); } catch (e) { return uri; }
+};
+
+const flattenNavigation = (items: any[], level = 0): NavEntry[] =>
+  items.flatMap(item => [
+    { title: cleanTitle(item.label || ''), level, path: safeDecodeURI((item.href || '').split('#')[0]) },
+    ...flattenNavigation(item.subitems || [], level + 1)
+  ]);
+
+// Navigation hrefs are relative to the nav document, spine hrefs to the
+// package document, so compare them by their trailing path.
+const samePath = (a: string, b: string) => a === b || a.endsWith('/' + b) || b.endsWith('/' + a);
+
+async function* epubSections(content: BookContent): AsyncGenerator<TextSection> {
+  // @ts-ignore
+  const book = window.ePub(toArrayBuffer(content));
+  try {
+    await book.ready;
+
+    const nav = flattenNavigation(book.navigation?.toc || []).filter(entry => entry.title && entry.path);
+    const spineItems = book.spine.items;
+    for (let i = 0; i < spineItems.length; i++) {
+      const item = spineItems[i];
+      const entry = nav.find(e => samePath(e.path, safeDecodeURI(item.href)));
+      const locator: ChapterLocator = {
+        type: 'epub',
+        href: item.href,
+        // Points at the <body> of the spine item.
+        cfi: item.cfiBase ? `epubcfi(${item.cfiBase}!/4)` : undefined
+      };
+      const section = { index: i, total: spineItems.length, level: entry?.level ?? 0, locator };
+      try {
+        const loaded = await book.load(item.href);
+        const doc: Document | undefined = typeof loaded === 'string'
+          ? new DOMParser().parseFromString(loaded, "text/html")
+          : loaded;
+        const body = doc?.body;
+        const text = (body?.innerText || body?.textContent || "").trim();
+        const heading = doc?.querySelector('h1, h2, h3') || doc?.querySelector('title');
+        const title = entry?.title || cleanTitle(heading?.textContent || '') || `Chapter ${i + 1}`;
+        yield { ...section, title, text };
+      } catch (err: any) {
+        console.warn(`Could not read chapter ${i + 1} (${item.href})`, err);
+        yield { ...section, title: entry?.title || `Chapter ${i + 1}`, text: "", error: `Chapter ${i + 1} (${item.href}): ${err?.message || 'could not be read'}` };
+      } finally {
         if (item.unload) item.unload();
       }
-      resolve(textAccumulator);
+    }
+  } finally {
+    book.destroy?.();
+  }
+}
+
+export interface OutlineEntry { title: string; level: number; page: number }
+
+/**
+ * Flattens the PDF outline into entries with 1-based page numbers, dropping
+ * entries whose destination cannot be resolved.
+ */
+export const readPdfOutline = async (doc: any): Promise<OutlineEntry[]> => {
+  const resolvePage = async (dest: any): Promise<number | undefined> => {
+    try {
+      const explicit = typeof dest === 'string' ? await doc.getDestination(dest) : dest;
+      if (!Array.isArray(explicit)) return undefined;
+      const ref = explicit[0];
+      return typeof ref === 'number' ? ref + 1 : (await doc.getPageIndex(ref)) + 1;
     } catch (e) {
-      reject(e);
+      return undefined;
     }
-  });
+  };
+
+  const entries: OutlineEntry[] = [];
+  const walk = async (items: any[], level: number) => {
+    for (const item of items) {
+      const page = await resolvePage(item.dest);
+      if (page) entries.push({ title: cleanTitle(item.title || ''), level, page });
+      if (item.items?.length) await walk(item.items, level + 1);
+    }
+  };
+
+  try {
+    await walk((await doc.getOutline()) || [], 0);
+  } catch (e) {
+    console.warn("Could not read PDF outline", e);
+  }
+  // Outlines are usually in page order already; a stable sort keeps nesting.
+  return entries.sort((a, b) => a.page - b.page);
+};
+
+const readPageLayout = async (doc: any, pageNumber: number): Promise<PageLayout> => {
+  const page = await doc.getPage(pageNumber);
+  const textContent = await page.getTextContent();
+  const layout = layoutPage(textContent.items.filter((item: any) => 'str' in item), page.view);
+  page.cleanup();
+  return layout;
 };
 
-const extractFromPdf = async (content: ArrayBuffer | string): Promise<string> => {
+async function* pdfSections(
+  content: BookContent,
+  bookTitle: string,
+  signal?: AbortSignal,
+  onProgress?: (fraction: number) => void
+): AsyncGenerator<TextSection> {
   // @ts-ignore
   const pdfjsLib = window.pdfjsLib;
   pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdn.jsdelivr.net/npm/pdfjs-dist@3.4.120/build/pdf.worker.min.js';
 
-  const data = typeof content === 'string' 
-    ? (new TextEncoder().encode(content)).buffer 
-    : content.slice(0);
-
-  const loadingTask = pdfjsLib.getDocument({ data });
+  const loadingTask = pdfjsLib.getDocument({ data: toArrayBuffer(content) });
   const doc = await loadingTask.promise;
-  
-  let fullText = "";
-  // For AI context, usually the first 50 pages are enough to get style/plot/characters
-  // Reading 500 pages of PDF synchronously freezes the UI too much
-  const maxPages = Math.min(doc.numPages, 50); 
-
-  for (let i = 1; i <= maxPages; i++) {
-    const page = await doc.getPage(i);
-    const textContent = await page.getTextContent();
-    // @ts-ignore
-    const pageText = textContent.items.map(item => item.str).join(' ');
-    fullText += pageText + "\n\n";
+  try {
+    // Without an outline every page is its own chapter.
+    let ranges: OutlineEntry[] = await readPdfOutline(doc);
+    if (ranges.length === 0) {
+      ranges = Array.from({ length: doc.numPages }, (_, i) => ({ title: `Page ${i + 1}`, level: 0, page: i + 1 }));
+    } else if (ranges[0].page > 1) {
+      ranges.unshift({ title: bookTitle, level: 0, page: 1 });
+    }
+
+    // Pages are laid out on this thread, so the work is cut into slices that
+    // give the UI a turn in between.
+    let sliceStart = performance.now();
+    const yieldSlice = async () => {
+      if (performance.now() - sliceStart < PDF_SLICE_MS) return;
+      await nextTask();
+      signal?.throwIfAborted();
+      sliceStart = performance.now();
+    };
+
+    // Running heads and footers are learned from pages spread over the book.
+    const samples: PageLayout[] = [];
+    for (const n of samplePageNumbers(doc.numPages)) {
+      const layout = await readPageLayout(doc, n).catch(() => null);
+      if (layout) samples.push(layout);
+      await yieldSlice();
+    }
+    const runningLines = findRunningLines(samples);
+
+    for (let c = 0; c < ranges.length; c++) {
+      const { title, level, page: start } = ranges[c];
+      // Entries sharing a page get the text once, under the last of them.
+      const end = c + 1 < ranges.length ? ranges[c + 1].page - 1 : doc.numPages;
+      const texts: string[] = [];
+      const failed: number[] = [];
+      for (let i = start; i <= end; i++) {
+        try {
+          texts.push(pageText(await readPageLayout(doc, i), runningLines));
+        } catch (err) {
+          console.warn(`Could not read page ${i}`, err);
+          failed.push(i);
+        }
+        // Progress within the chapter's share, so it meets the per-chapter
+        // fraction when the chapter is yielded.
+        onProgress?.((c + (i - start + 1) / (end - start + 1)) / ranges.length);
+        await yieldSlice();
+      }
+      yield {
+        index: c,
+        total: ranges.length,
+        title: title || `Page ${start}`,
+        level,
+        text: joinPages(texts),
+        locator: { type: 'pdf', page: start },
+        error: failed.length > 0 ? `Page ${failed.join(', ')} could not be read` : undefined
+      };
+    }
+  } finally {
+    loadingTask.destroy();
   }
-  return fullText;
+}
+
+const FB2_BLOCKS = 'p, v, subtitle, text-author';
+
+// Text of an FB2 element without its nested sections, one line per block.
+const fb2Text = (el: Element): string =>
+  Array.from(el.querySelectorAll(FB2_BLOCKS))
+    .filter(block => block.closest('section, body') === el)
+    .map(block => (block.textContent || '').trim())
+    .filter(Boolean)
+    .join("\n");
+
+const fb2Title = (el: Element): string => {
+  const title = Array.from(el.children).find(child => child.localName === 'title');
+  return title ? cleanTitle(Array.from(title.children).map(p => p.textContent || '').join(' ')) : '';
 };
 
-const extractFromFb2 = (content: string | ArrayBuffer): string => {
-  let text = typeof content === 'string' ? content : new TextDecoder("utf-8").decode(content);
-  try {
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(text, "text/xml");
-    const body = xmlDoc.getElementsByTagName("body")[0] || xmlDoc.getElementsByTagName("FictionBook")[0];
-    return body ? (body.textContent || "") : text.replace(/<[^>]+>/g, '\n');
-  } catch (e) {
-     return text.replace(/<[^>]+>/g, '\n');
+/**
+ * One chapter per FB2 section, nested as in the file. Text directly in a body
+ * (title, epigraph) and extra bodies (notes) become chapters of their own.
+ */
+const fb2Chapters = (source: string, bookTitle: string): ChapterDraft[] => {
+  const doc = new DOMParser().parseFromString(source, "text/xml");
+  const bodies = Array.from(doc.getElementsByTagName("body"));
+  if (doc.getElementsByTagName("parsererror").length > 0 || bodies.length === 0) {
+    return splitPlainText(decodeEntities(source.replace(/<[^>]+>/g, '\n')).replace(/\n\s*\n/g, "\n\n").trim(), bookTitle);
   }
+
+  const chapters: ChapterDraft[] = [];
+  let untitled = 0;
+  const walk = (section: Element, level: number) => {
+    chapters.push({ title: fb2Title(section) || `Section ${++untitled}`, level, text: fb2Text(section) });
+    for (const child of Array.from(section.children)) {
+      if (child.localName === 'section') walk(child, level + 1);
+    }
+  };
+
+  bodies.forEach((body, i) => {
+    const intro = fb2Text(body);
+    if (intro) chapters.push({ title: fb2Title(body) || (i === 0 ? bookTitle : body.getAttribute('name') || 'Notes'), level: 0, text: intro });
+    for (const child of Array.from(body.children)) {
+      if (child.localName === 'section') walk(child, i === 0 ? 0 : 1);
+    }
+  });
+  return chapters;
 };
 
-const extractFromRtf = (content: string | ArrayBuffer): string => {
-   let text = typeof content === 'string' ? content : new TextDecoder("utf-8").decode(content);
-   text = text.replace(/(\{[^{}]*\})/g, "");
-   text = text.replace(/\\par[d]?\s*/g, "\n");
-   text = text.replace(/\\line\s*/g, "\n");
-   text = text.replace(/\\[a-z0-9]+\s?/g, "");
-   text = text.replace(/[{}]/g, "");
-   return text.trim();
+// Chapter headings in plain text: "第十二章 …", "卷一", "Chapter 12", "PART II"...
+const CJK_NUMBER = '[0-9０-９〇零一二三四五六七八九十百千万两]+';
+const LATIN_NUMBER = '([0-9]+|[IVXLC]+|one|two|three|four|five|six|seven|eight|nine|ten)\\b';
+const VOLUME_HEADING = new RegExp(`^(第${CJK_NUMBER}[卷部集篇]|卷${CJK_NUMBER}|(Part|Book|Volume)\\s+${LATIN_NUMBER})`, 'i');
+const CHAPTER_HEADING = new RegExp(`^(第${CJK_NUMBER}[章回节節话話]|Chapter\\s+${LATIN_NUMBER}|(Prologue|Epilogue)\\b|序[章言]?$|楔子|引子|尾声|尾聲|后记|後記|番外)`, 'i');
+const MAX_HEADING_LENGTH = 50;
+
+export interface TextHeading {
+  // Index of the heading line.
+  line: number;
+  title: string;
+  // 0 for volumes, or for chapters when there are no volumes.
+  level: number;
+}
+
+/**
+ * Finds chapter and volume heading lines in plain text. Fewer than two
+ * headings are taken as chance matches and none are returned.
+ */
+export const detectHeadings = (lines: string[]): TextHeading[] => {
+  const found: { line: number; title: string; volume: boolean }[] = [];
+  lines.forEach((raw, line) => {
+    const title = raw.trim();
+    if (!title || title.length > MAX_HEADING_LENGTH) return;
+    if (VOLUME_HEADING.test(title)) found.push({ line, title: cleanTitle(title), volume: true });
+    else if (CHAPTER_HEADING.test(title)) found.push({ line, title: cleanTitle(title), volume: false });
+  });
+  if (found.length < 2) return [];
+
+  const hasVolumes = found.some(h => h.volume);
+  return found.map(({ line, title, volume }) => ({ line, title, level: hasVolumes && !volume ? 1 : 0 }));
+};
+
+/**
+ * Splits plain text into chapters at heading lines. Text with fewer than two
+ * headings stays a single chapter named after the book.
+ */
+const splitPlainText = (text: string, bookTitle: string): ChapterDraft[] => {
+  const lines = text.split(/\r?\n/);
+  const headings = detectHeadings(lines);
+  if (headings.length === 0) return [{ title: bookTitle, level: 0, text: text.trim() }];
+
+  const chapters: ChapterDraft[] = [];
+  const preface = lines.slice(0, headings[0].line).join("\n").trim();
+  if (preface) chapters.push({ title: bookTitle, level: 0, text: preface });
+  headings.forEach((heading, i) => {
+    const end = i + 1 < headings.length ? headings[i + 1].line : lines.length;
+    chapters.push({
+      title: heading.title,
+      level: heading.level,
+      text: lines.slice(heading.line, end).join("\n").trim()
+    });
+  });
+  return chapters;
+};
+
+/**
+ * RTF documents are cut at their heading paragraphs; documents without
+ * heading styles fall back to plain-text heading detection.
+ */
+const rtfChapters = (doc: RtfDocument, bookTitle: string): ChapterDraft[] => {
+  const headings = doc.paragraphs.filter(p => p.heading);
+  if (headings.length === 0) return splitPlainText(rtfToText(doc), bookTitle);
+
+  const topLevel = Math.min(...headings.map(p => p.heading!));
+  const chapters: ChapterDraft[] = [];
+  let current: ChapterDraft = { title: bookTitle, level: 0, text: '' };
+  for (const paragraph of doc.paragraphs) {
+    const text = paragraphText(paragraph);
+    if (paragraph.heading) {
+      if (current.text.trim()) chapters.push(current);
+      current = { title: cleanTitle(text), level: paragraph.heading - topLevel, text: '' };
+    }
+    current.text += text + '\n';
+  }
+  chapters.push(current);
+  return chapters.map(chapter => ({ ...chapter, text: chapter.text.replace(/\n{3,}/g, '\n\n').trim() }));
+};
+
+/**
+ * MOBI6 books are cut at their NCX entries, falling back to page breaks;
+ * KF8 books yield one chapter per part.
+ */
+const mobiChapters = async (book: Book, buffer: ArrayBuffer): Promise<ChapterDraft[]> => {
+  if (book.format === 'azw3' && isKf8(buffer)) {
+    const kf8 = await parseKf8(buffer, { resources: false });
+    return kf8.parts.map((part, i) => ({
+      title: htmlHeading(part.html) || `Section ${i + 1}`,
+      level: 0,
+      text: htmlToText(part.html.replace(/<head[\s\S]*?<\/head>/i, ''))
+    }));
+  }
+
+  const { html, toc } = await parseMobi(buffer, { resources: false });
+
+  const cuts = toc
+    .map(entry => {
+      const at = entry.href ? html.indexOf(`id="${entry.href.substring(1)}"`) : -1;
+      return { ...entry, start: at < 0 ? -1 : html.lastIndexOf('<', at) };
+    })
+    .filter(cut => cut.start >= 0)
+    .sort((a, b) => a.start - b.start);
+
+  if (cuts.length === 0) {
+    return html.split('<div class="mobi-pagebreak"></div>')
+      .map((segment, i) => ({ title: htmlHeading(segment) || `Section ${i + 1}`, level: 0, text: htmlToText(segment) }))
+      .filter(chapter => chapter.text);
+  }
+
+  const chapters: ChapterDraft[] = [];
+  const front = htmlToText(html.substring(0, cuts[0].start));
+  if (front) chapters.push({ title: book.title, level: 0, text: front });
+  cuts.forEach((cut, i) => {
+    const end = i + 1 < cuts.length ? cuts[i + 1].start : html.length;
+    chapters.push({ title: cut.title, level: cut.level, text: htmlToText(html.substring(cut.start, end)) });
+  });
+  return chapters;
 };
@@ -0,0 +1,162 @@
+/**
+ * Maps between the column pages of the text reader and character offsets
+ * into the rendered book text. Offsets do not depend on the layout, so a
+ * reading position survives font size and window changes that repaginate
+ * the book.
+ */
+
+interface TextSpan {
+  node: Text;
+  // Offset of the node's first character in the rendered text.
+  start: number;
+}
+
+// Every text node that counts towards offsets, in document order.
+const allTextSpans = (root: HTMLElement): TextSpan[] => {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+    acceptNode: node => node.parentElement?.closest('style, script') ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT
+  });
+  const spans: TextSpan[] = [];
+  let length = 0;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    spans.push({ node: node as Text, start: length });
+    length += (node as Text).data.length;
+  }
+  return spans;
+};
+
+// Text nodes that show on the page. Whitespace-only nodes count towards
+// offsets but are never measured.
+const textSpans = (root: HTMLElement): { spans: TextSpan[]; length: number } => {
+  const all = allTextSpans(root);
+  const last = all[all.length - 1];
+  return {
+    spans: all.filter(span => span.node.data.trim()),
+    length: last ? last.start + last.node.data.length : 0
+  };
+};
+
+/**
+ * Column page a character is laid out on. `root` is the multi-column element
+ * and `pageWidth` the column width plus the gap.
+ */
+const pageOfChar = (root: HTMLElement, span: TextSpan, index: number, pageWidth: number): number => {
+  const range = document.createRange();
+  range.setStart(span.node, index);
+  range.setEnd(span.node, Math.min(index + 1, span.node.data.length));
+  const rect = range.getClientRects()[0] ?? range.getBoundingClientRect();
+  return Math.floor((rect.left - root.getBoundingClientRect().left + 1) / pageWidth);
+};
+
+export const renderedTextLength = (root: HTMLElement): number => textSpans(root).length;
+
+/**
+ * The rendered text itself, which offsets index into.
+ */
+export const renderedText = (root: HTMLElement): string => allTextSpans(root).map(span => span.node.data).join('');
+
+/**
+ * Offset of the first character on `page`. Pages follow document order, so
+ * the text nodes and then the characters of one node are binary searched.
+ */
+export const textOffsetAtPage = (root: HTMLElement, page: number, pageWidth: number): number => {
+  const { spans, length } = textSpans(root);
+  if (spans.length === 0 || page <= 0) return 0;
+
+  // Last node that starts before the page.
+  let low = 0;
+  let high = spans.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (pageOfChar(root, spans[mid], 0, pageWidth) < page) low = mid;
+    else high = mid - 1;
+  }
+  const span = spans[low];
+  if (pageOfChar(root, span, 0, pageWidth) >= page) return span.start;
+
+  let from = 0;
+  let to = span.node.data.length;
+  while (from < to) {
+    const mid = (from + to) >> 1;
+    if (pageOfChar(root, span, mid, pageWidth) >= page) to = mid;
+    else from = mid + 1;
+  }
+  if (from < span.node.data.length) return span.start + from;
+  return spans[low + 1]?.start ?? length;
+};
+
+/**
+ * Page holding the character at `offset`.
+ */
+export const pageAtTextOffset = (root: HTMLElement, offset: number, pageWidth: number): number => {
+  const { spans } = textSpans(root);
+  if (spans.length === 0) return 0;
+
+  let low = 0;
+  let high = spans.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (spans[mid].start <= offset) low = mid;
+    else high = mid - 1;
+  }
+  const span = spans[low];
+  const index = offset - span.start;
+  // Offsets inside whitespace between nodes belong to the next node.
+  if (index >= span.node.data.length && spans[low + 1]) return pageOfChar(root, spans[low + 1], 0, pageWidth);
+  return pageOfChar(root, span, Math.max(0, Math.min(index, span.node.data.length - 1)), pageWidth);
+};
+
+/**
+ * Page an element starts on, e.g. a chapter heading.
+ */
+export const pageOfElement = (root: HTMLElement, element: Element, pageWidth: number): number =>
+  Math.floor((element.getBoundingClientRect().left - root.getBoundingClientRect().left + 1) / pageWidth);
+
+/**
+ * Offset of a DOM boundary point, such as a selection end. A point between
+ * elements counts as the start of the next text node.
+ */
+export const textOffsetOfBoundary = (root: HTMLElement, container: Node, offset: number): number => {
+  const spans = allTextSpans(root);
+  const own = spans.find(span => span.node === container);
+  if (own) return own.start + offset;
+
+  const point = document.createRange();
+  point.setStart(container, offset);
+  const next = spans.find(span => point.comparePoint(span.node, 0) >= 0);
+  const last = spans[spans.length - 1];
+  return next ? next.start : last ? last.start + last.node.data.length : 0;
+};
+
+/**
+ * DOM range covering the characters from `start` to `end`, or null when
+ * the text is shorter.
+ */
+export const textRangeFromOffsets = (root: HTMLElement, start: number, end: number): Range | null => {
+  const spans = allTextSpans(root);
+  const first = spans.find(span => start >= span.start && start < span.start + span.node.data.length);
+  const last = spans.find(span => end > span.start && end <= span.start + span.node.data.length);
+  if (!first || !last) return null;
+  const range = document.createRange();
+  range.setStart(first.node, start - first.start);
+  range.setEnd(last.node, end - last.start);
+  return range;
+};
+
+/**
+ * Offset of the character under a viewport point, e.g. a click.
+ */
+export const textOffsetAtPoint = (root: HTMLElement, x: number, y: number): number | null => {
+  // caretPositionFromPoint is the standard; WebKit only has caretRangeFromPoint.
+  const doc = document as any;
+  let caret: { node: Node; offset: number } | null = null;
+  if (doc.caretPositionFromPoint) {
+    const position = doc.caretPositionFromPoint(x, y);
+    if (position) caret = { node: position.offsetNode, offset: position.offset };
+  } else if (doc.caretRangeFromPoint) {
+    const range: Range | null = doc.caretRangeFromPoint(x, y);
+    if (range) caret = { node: range.startContainer, offset: range.startOffset };
+  }
+  if (!caret || !root.contains(caret.node)) return null;
+  return textOffsetOfBoundary(root, caret.node, caret.offset);
+};
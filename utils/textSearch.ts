@@ -0,0 +1,177 @@
+/**
+ * Full-text search over book text. Text and query are folded character by
+ * character (case, traditional to simplified Chinese) so that match offsets
+ * in the folded text are offsets in the original text as well.
+ */
+
+export interface SearchOptions {
+  matchCase: boolean;
+  wholeWord: boolean;
+}
+
+export interface TextMatch {
+  start: number;
+  end: number;
+}
+
+// Text around a match, as shown in the result list.
+export interface SearchExcerpt {
+  before: string;
+  match: string;
+  after: string;
+}
+
+// Where a match is: a CFI range in an EPUB, characters of a PDF page as
+// counted by `pdfPageText`, or an offset range in the rendered book text.
+export type SearchTarget =
+  | { type: 'epub'; cfiRange: string }
+  | { type: 'pdf'; page: number; start: number; end: number }
+  | { type: 'text'; start: number; end: number };
+
+export interface SearchResult {
+  target: SearchTarget;
+  chapter?: string;
+  excerpt: SearchExcerpt;
+}
+
+// Traditional and simplified forms, in pairs. Characters that have several
+// traditional forms list each of them.
+const TRADITIONAL_SIMPLIFIED =
+  '萬万與与專专業业東东絲丝兩两嚴严喪丧個个豐丰臨临為为爲为麗丽舉举麼么義义樂乐習习鄉乡書书買买亂乱爭争於于虧亏雲云亞亚產产親亲' +
+  '億亿僅仅從从倉仓儀仪們们價价眾众衆众優优會会傘伞偉伟傳传傷伤倫伦偽伪僞伪體体餘余俠侠側侧債债傾倾償偿儲储兒儿黨党蘭兰關关' +
+  '興兴養养獸兽內内岡冈冊册寫写軍军農农馮冯衝冲沖冲決决況况凍冻淨净涼凉減减幾几鳳凤憑凭凱凯擊击劃划劉刘則则剛刚創创刪删別别' +
+  '劑剂劍剑劇剧勸劝辦办務务動动勵励勁劲勞劳勢势勝胜區区醫医華华協协單单賣卖衛卫卻却廠厂廳厅曆历歷历厲厉壓压厭厌廁厕廈厦廚厨' +
+  '縣县參参雙双發发髮发變变敘叙疊叠葉叶號号嘆叹後后嚇吓嗎吗聽听啟启吳吴員员響响啞哑嘩哗喚唤噴喷團团糰团國国園园圍围圖图圓圆聖圣' +
+  '場场壞坏塊块堅坚壇坛墳坟墜坠壘垒墾垦墊垫牆墙壯壮聲声殼壳壺壶處处備备復复複复夠够頭头誇夸夾夹奪夺奮奋獎奖奧奥妝妆粧妆婦妇' +
+  '媽妈嬌娇娛娱嬰婴孫孙學学寧宁寶宝實实寵宠審审憲宪寬宽賓宾寢寝對对尋寻導导壽寿將将爾尔塵尘堯尧屍尸盡尽層层屬属屢屡歲岁豈岂' +
+  '島岛嶺岭嶽岳峽峡幣币帥帅師师帳帐簾帘帶带幫帮幹干乾干並并廣广莊庄慶庆庫库應应廟庙龐庞廢废開开異异棄弃張张彎弯彈弹強强歸归' +
+  '當当噹当錄录徹彻徑径憶忆憂忧懷怀態态總总戀恋懇恳惡恶惱恼悅悦懸悬驚惊懼惧慘惨懲惩慚惭慣惯憤愤願愿懶懒戲戏戰战戶户撲扑執执' +
+  '擴扩掃扫揚扬擾扰撫抚拋抛搶抢護护報报擔担擬拟擁拥攔拦擇择掛挂擋挡掙挣擠挤揮挥損损撿捡換换據据擲掷攬揽攜携攝摄擺摆搖摇攤摊' +
+  '撐撑擡抬託托捲卷佔占敵敌數数齋斋鬥斗斬斩斷断無无舊旧時时曠旷晝昼顯显晉晋曬晒曉晓暈晕暫暂術术樸朴機机殺杀雜杂權权條条來来' +
+  '楊杨傑杰極极構构樞枢棗枣槍枪櫃柜標标棟栋欄栏樹树棲栖樣样檔档橋桥夢梦檢检樓楼橫横櫻樱樑梁檯台臺台颱台鬆松歡欢歐欧殲歼殘残' +
+  '毆殴毀毁畢毕斃毙氣气漢汉湯汤溝沟沒没淪沦滄沧淚泪瀉泻潑泼澤泽潔洁灑洒淺浅漿浆澆浇濁浊測测濟济渾浑濃浓濤涛漣涟渦涡滌涤潤润' +
+  '澗涧漲涨澀涩淵渊漸渐漁渔滲渗溫温遊游灣湾濕湿潰溃濺溅滾滚滯滞滿满濾滤濫滥濱滨灘滩潛潜瀕濒滅灭淒凄悽凄燈灯靈灵災灾燦灿爐炉' +
+  '點点煉炼鍊炼爍烁爛烂燭烛煙烟煩烦燒烧燙烫熱热煥焕愛爱爺爷牽牵犧牺狀状猶犹獨独狹狭獅狮獄狱獵猎豬猪貓猫獻献獃呆環环現现瑪玛' +
+  '璽玺瓊琼甕瓮電电畫画暢畅療疗瘡疮瘋疯癢痒癡痴癱瘫癮瘾皺皱盞盏盃杯鹽盐監监蓋盖盜盗盤盘睜睁瞞瞒瞭了矯矫礦矿碼码磚砖礎础碩硕' +
+  '確确礙碍禮礼禍祸祿禄禪禅禦御離离禿秃種种積积稱称稅税穩稳穫获竊窃竅窍窯窑窩窝豎竖競竞筆笔籠笼築筑篩筛籌筹簽签籤签簡简籃篮' +
+  '籬篱範范類类糞粪糧粮緊紧糾纠紅红約约級级紀纪純纯紗纱綱纲納纳縱纵紛纷紙纸紋纹紡纺紐纽線线練练組组紳绅細细織织終终絆绊紹绍' +
+  '經经綁绑絨绒結结繞绕繪绘給给絡络絕绝絞绞統统絹绢繡绣繼继績绩緒绪續续綺绮緋绯繩绳維维綿绵綢绸綜综綠绿綴缀緬缅緝缉緞缎緩缓' +
+  '締缔編编緣缘縫缝纏缠縮缩繳缴纖纤縴纤綵彩係系繫系網网羅罗罰罚罷罢羨羡翹翘聳耸恥耻聶聂聾聋職职聯联聰聪肅肃腸肠膚肤腎肾腫肿' +
+  '脹胀脅胁膽胆朧胧膠胶脈脉髒脏臟脏臍脐腦脑膿脓腳脚脫脱臉脸臘腊膩腻騰腾輿舆艦舰艙舱艱艰豔艳藝艺節节蘆芦葦苇蒼苍蘇苏蘋苹莖茎' +
+  '薦荐莢荚蕩荡榮荣葷荤熒荧蔭荫藥药萊莱蓮莲獲获瑩莹鶯莺蘿萝螢萤營营縈萦蕭萧薩萨蔥葱蔣蒋藍蓝薊蓟藹蔼蘊蕴蘚藓蔔卜虜虏慮虑虛虚' +
+  '蟲虫雖虽蝦虾蝕蚀蟻蚁螞蚂蠶蚕蠻蛮蛻蜕蝸蜗蠟蜡蠅蝇蟬蝉釁衅銜衔補补襯衬襖袄襪袜襲袭裝装褲裤見见觀观規规覓觅視视覽览覺觉觸触' +
+  '譽誉計计訂订認认譏讥討讨讓让訓训議议訊讯記记講讲諱讳許许論论諷讽設设訪访訣诀證证評评識识詐诈訴诉診诊詞词譯译試试詩诗誠诚' +
+  '話话誕诞詭诡詢询該该詳详誡诫語语誤误誘诱說说誦诵請请諸诸諾诺讀读課课誰谁調调諒谅談谈誼谊謀谋謊谎諧谐謂谓諭谕諮谘諺谚諦谛' +
+  '謎谜謝谢謠谣謙谦謹谨謬谬譜谱譴谴誌志註注貝贝貞贞負负貢贡財财責责賢贤敗败賬账貨货質质販贩貪贪貧贫貶贬購购貯贮貫贯貳贰賤贱' +
+  '貼贴貴贵貸贷貿贸費费賀贺賊贼賈贾賄贿資资賦赋賭赌贖赎賞赏賜赐賠赔賴赖贅赘賺赚賽赛讚赞贊赞贈赠贏赢趙赵趕赶趨趋躍跃踐践蹤踪' +
+  '蹟迹跡迹軀躯車车軌轨軒轩轉转輪轮軟软轟轰軸轴輕轻載载轎轿較较輔辅輛辆輩辈輝辉輯辑輸输轄辖辭辞辯辩邊边遼辽達达遷迁過过邁迈' +
+  '運运還还這这進进遠远違违連连遲迟適适選选遜逊遞递邏逻遺遗遙遥迴回週周鄧邓郵邮鄰邻鬱郁鄭郑醞酝醬酱釀酿釋释醜丑裏里裡里鑒鉴' +
+  '鑑鉴針针鍼针釘钉釣钓鈣钙鈍钝鈔钞鐘钟鍾钟鋼钢鑰钥欽钦鈞钧鈕钮錢钱鉗钳鑽钻鐵铁鈴铃鉛铅銅铜鋁铝銘铭鏟铲銀银鑄铸鋪铺鏈链銷销' +
+  '鎖锁鋤锄鍋锅鏽锈鋒锋銳锐錯错錨锚錫锡鑼锣錘锤錐锥錦锦鍵键鋸锯鍛锻鍍镀鎮镇鏡镜長长門门閃闪閉闭問问闖闯閏闰閑闲閒闲間间悶闷' +
+  '閘闸鬧闹閨闺聞闻閱阅闊阔隊队陽阳陰阴陣阵階阶際际陸陆陳陈險险隨随隱隐隸隶隻只祇只衹只難难雛雏霧雾靂雳靜静韋韦韓韩韻韵頁页' +
+  '頂顶項项順顺須须頑顽顧顾頓顿頒颁頌颂預预領领頗颇頸颈頻频題题額额顏颜顛颠顫颤風风飄飘飛飞飢饥饑饥飯饭飲饮飾饰飽饱飼饲餅饼' +
+  '餓饿餵喂館馆饅馒麵面馬马馭驭馳驰驅驱駁驳驢驴駛驶駐驻駕驾驛驿驕骄罵骂駱骆騎骑騙骗騷骚驗验驟骤髏髅鬍胡鬢鬓魚鱼魯鲁鮮鲜鯨鲸' +
+  '鱗鳞鳥鸟雞鸡鴨鸭鴿鸽鵝鹅鷹鹰鹵卤滷卤鹹咸麥麦黃黄齊齐齒齿齡龄龍龙龜龟嘗尝嚐尝纔才彙汇匯汇嚮向製制準准竈灶傢家夥伙採采勳勋釐厘';
+
+const FOLD_CHINESE = new Map<string, string>();
+for (let i = 0; i + 1 < TRADITIONAL_SIMPLIFIED.length; i += 2) {
+  FOLD_CHINESE.set(TRADITIONAL_SIMPLIFIED[i], TRADITIONAL_SIMPLIFIED[i + 1]);
+}
+
+const CJK = /[\u2e80-\u2fff\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af\uf900-\ufaff]/;
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+// CJK text has no spaces between words, so every CJK character counts as
+// a word boundary.
+const isWordChar = (char: string | undefined) => !!char && WORD_CHAR.test(char) && !CJK.test(char);
+
+const EXCERPT_CONTEXT = 40;
+
+/**
+ * Folds text for comparison without changing its length: one output
+ * character per input UTF-16 unit.
+ */
+export const foldText = (text: string, matchCase: boolean): string => {
+  let folded = '';
+  for (let i = 0; i < text.length; i++) {
+    let char = FOLD_CHINESE.get(text[i]) ?? text[i];
+    if (!matchCase) {
+      const lower = char.toLowerCase();
+      if (lower.length === 1) char = lower;
+    }
+    folded += char;
+  }
+  return folded;
+};
+
+/**
+ * Every match of `query` in `text`. Whitespace in the query matches any run
+ * of whitespace, so line breaks in the book do not hide a phrase.
+ */
+export const findMatches = (text: string, query: string, options: SearchOptions, limit = Infinity): TextMatch[] => {
+  const words = foldText(query.trim(), options.matchCase).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+  const escaped = words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(escaped.join('\\s+'), 'g');
+  const folded = foldText(text, options.matchCase);
+
+  const matches: TextMatch[] = [];
+  for (let found = pattern.exec(folded); found && matches.length < limit; found = pattern.exec(folded)) {
+    const start = found.index;
+    const end = start + found[0].length;
+    if (options.wholeWord) {
+      const bounded = !(isWordChar(text[start - 1]) && isWordChar(text[start]))
+        && !(isWordChar(text[end - 1]) && isWordChar(text[end]));
+      if (!bounded) continue;
+    }
+    matches.push({ start, end });
+  }
+  return matches;
+};
+
+export const excerptAt = (text: string, match: TextMatch): SearchExcerpt => {
+  const from = Math.max(0, match.start - EXCERPT_CONTEXT);
+  const to = Math.min(text.length, match.end + EXCERPT_CONTEXT);
+  const clean = (part: string) => part.replace(/\s+/g, ' ');
+  return {
+    before: (from > 0 ? '…' : '') + clean(text.slice(from, match.start)).trimStart(),
+    match: clean(text.slice(match.start, match.end)),
+    after: clean(text.slice(match.end, to)).trimEnd() + (to < text.length ? '…' : '')
+  };
+};
+
+/**
+ * Text of a PDF page as the pdf.js text layer lays it out: one span per
+ * item, with a line break after items that end a line.
+ */
+export const pdfPageText = (items: { str?: string; hasEOL?: boolean }[]): string =>
+  items.map(item => (item.str ?? '') + (item.hasEOL ? '\n' : '')).join('');
+
+/**
+ * DOM range over characters of a rendered pdf.js text layer, counted as in
+ * `pdfPageText`.
+ */
+export const pdfTextLayerRange = (layer: HTMLElement, start: number, end: number): Range | null => {
+  const range = document.createRange();
+  let offset = 0;
+  let started = false;
+  for (const child of Array.from(layer.childNodes)) {
+    if (child.nodeName === 'BR') {
+      offset += 1;
+      continue;
+    }
+    const node = child.firstChild;
+    if (!(node instanceof Text)) continue;
+    const length = node.data.length;
+    if (!started && start < offset + length) {
+      range.setStart(node, Math.max(0, start - offset));
+      started = true;
+    }
+    if (started && end <= offset + length) {
+      range.setEnd(node, Math.max(0, end - offset));
+      return range;
+    }
+    offset += length;
+  }
+  return null;
+};